@@ -1,71 +1,18 @@
 #!/usr/bin/env node
 import "source-map-support/register";
 import * as cdk from "aws-cdk-lib";
-import { APIProps, APIStack } from "../lib/api-stack";
-import { NetworkProps, NetworkStack } from "../lib/network-stack";
-import { DBProps, DBStack } from "../lib/db-stack";
-import { DBBastionStack } from "../lib/db-bastion-stack";
-import { FrontStack } from "../lib/front-stack";
-
-type EnvProps = {
-  readonly api: APIProps;
-  readonly network: NetworkProps;
-  readonly db: DBProps;
-};
+import { loadConfig } from "../lib/config";
+import { Guardrails } from "../lib/guardrails";
+import { assertNoMissingContext } from "../lib/offline";
+import { createStacks } from "../lib/stacks";
+import { applyTags } from "../lib/tagging";
 
 const app = new cdk.App();
-
-const envType = app.node.tryGetContext("env") as "dev" | "prod";
-const commitHash = app.node.tryGetContext("commit") as string;
-
-const {
-  api: apiProps,
-  network: networkProps,
-  db: dbProps,
-} = app.node.tryGetContext(envType) as EnvProps;
-
-const network = new NetworkStack(app, "network-stack", {
-  networkProps,
-  env: {
-    account: process.env.CDK_DEFAULT_ACCOUNT,
-    region: process.env.CDK_DEFAULT_REGION,
-  },
-});
-
-const db = new DBStack(app, "db-stack", {
-  dbProps,
-  vpc: network.vpc,
-  env: {
-    account: process.env.CDK_DEFAULT_ACCOUNT,
-    region: process.env.CDK_DEFAULT_REGION,
-  },
-});
-db.addDependency(network);
-
-const bastion = new DBBastionStack(app, "db-bastion-stack", {
-  vpc: network.vpc,
-  env: {
-    account: process.env.CDK_DEFAULT_ACCOUNT,
-    region: process.env.CDK_DEFAULT_REGION,
-  },
-});
-bastion.addDependency(db);
-
-const api = new APIStack(app, "api-stack", {
-  envType,
-  commitHash,
-  apiProps,
-  env: {
-    account: process.env.CDK_DEFAULT_ACCOUNT,
-    region: process.env.CDK_DEFAULT_REGION,
-  },
-});
-api.addDependency(network);
-api.addDependency(db);
-
-new FrontStack(app, "front-stack", {
-  env: {
-    account: process.env.CDK_DEFAULT_ACCOUNT,
-    region: process.env.CDK_DEFAULT_REGION,
-  },
-}).addDependency(api);
+const config = loadConfig(app);
+const stacks = createStacks(app, config);
+applyTags(app, stacks, config.tagging, config.envType, config.commitHash);
+cdk.Aspects.of(app).add(new Guardrails(config.guardrails));
+
+if (config.offline) {
+  assertNoMissingContext(app.synth());
+}
@@ -1,47 +1,228 @@
-import { StackProps as CdkStackProps, Stack, Fn, Aws } from "aws-cdk-lib";
+import {
+  StackProps as CdkStackProps,
+  Stack,
+  Aws,
+  CfnResource,
+  Duration,
+} from "aws-cdk-lib";
 import * as ecr from "aws-cdk-lib/aws-ecr";
 import { Construct } from "constructs";
-import * as ssm from "aws-cdk-lib/aws-ssm";
+import * as sm from "aws-cdk-lib/aws-secretsmanager";
 import * as ec2 from "aws-cdk-lib/aws-ec2";
 import * as iam from "aws-cdk-lib/aws-iam";
-import * as cr from "aws-cdk-lib/custom-resources";
+import * as events from "aws-cdk-lib/aws-events";
+import * as targets from "aws-cdk-lib/aws-events-targets";
+import * as route53 from "aws-cdk-lib/aws-route53";
 import * as wafv2 from "aws-cdk-lib/aws-wafv2";
 import * as aws_apprunner from "aws-cdk-lib/aws-apprunner";
+import * as xray from "aws-cdk-lib/aws-xray";
 import * as ecrAssets from "aws-cdk-lib/aws-ecr-assets";
 import * as ecrdeploy from "cdk-ecr-deployment";
 import * as path from "path";
+import type { EnvType } from "./config";
+import type { DataProtection } from "./data-protection";
+import type { Naming } from "./naming";
+import { WAFProps, WebACL } from "./waf";
+import { AppRunnerCustomDomain } from "./custom-domain";
+import { suppressGuardrailOnSingletons } from "./guardrails";
+import {
+  APIHandles,
+  DBConnectionParameters,
+  DBHandles,
+  DBLookupOptions,
+  DiscoveryMode,
+  NetworkHandles,
+  lookupDBHandles,
+  lookupNetworkHandles,
+  publishAPIHandles,
+} from "./discovery";
 
 type AppRunnerProps = {
   readonly cpu: number;
   readonly memory: number;
+  readonly autoScaling: {
+    readonly minSize: number;
+    readonly maxSize: number;
+    /**
+     * Concurrent requests per instance before App Runner scales out.
+     */
+    readonly maxConcurrency: number;
+  };
+  /**
+   * Redeploys the service whenever the image tag in ECR is pushed again.
+   */
+  readonly autoDeploymentsEnabled: boolean;
   readonly healthCheck: {
     readonly interval: number;
     readonly path: string;
     readonly timeout: number;
     readonly healthyThreshold: number;
     readonly unhealthyThreshold: number;
-    readonly protocol: string;
+    readonly protocol: "TCP" | "HTTP";
   };
 };
 
+type ECRProps = {
+  readonly tagMutability: "MUTABLE" | "IMMUTABLE";
+  /**
+   * Also tag each pushed image `<env>-latest`. Needs mutable tags.
+   */
+  readonly aliasTag: boolean;
+  readonly lifecycle: {
+    readonly untaggedExpirationDays?: number;
+    readonly maxImageCount?: number;
+  };
+};
+
+type EnvironmentVariable =
+  | {
+      readonly name: string;
+      readonly value: string;
+    }
+  | {
+      readonly name: string;
+      /**
+       * Parameter name; the latest version is used unless `version` pins one.
+       */
+      readonly ssmParameter: string;
+      readonly version?: number;
+      readonly kmsKeyArn?: string;
+    }
+  | {
+      readonly name: string;
+      /**
+       * Secret name or full ARN, optionally narrowed to one key of its JSON.
+       */
+      readonly secret: string;
+      readonly jsonKey?: string;
+      readonly kmsKeyArn?: string;
+    }
+  | {
+      readonly name: string;
+      /**
+       * Connection setting published by DBStack.
+       */
+      readonly db: DBConnectionSetting;
+    };
+
+type SamplingRule = {
+  /**
+   * Suffix of the rule name, e.g. `health-check` -> `dev-api-health-check`.
+   */
+  readonly name: string;
+  /**
+   * Rules are evaluated in ascending priority (1-9999) before the account's
+   * default rule.
+   */
+  readonly priority: number;
+  /**
+   * Requests traced per second before `fixedRate` applies.
+   */
+  readonly reservoirSize: number;
+  /**
+   * Share (0-1) of the remaining requests that are traced.
+   */
+  readonly fixedRate: number;
+  readonly host: string;
+  readonly httpMethod: string;
+  readonly urlPath: string;
+};
+
+type TracingProps = {
+  /**
+   * Rules only match this service, which reports the App Runner service name
+   * through the `OTEL_SERVICE_NAME` variable unless the environment sets it.
+   */
+  readonly samplingRules: SamplingRule[];
+};
+
+/**
+ * The API sources, with a Dockerfile per environment under `build/<env>/`.
+ */
+export const API_PATH = path.join(__dirname, "../..", "api");
+
+export type DBConnectionSetting =
+  | keyof DBConnectionParameters
+  | "username"
+  | "password";
+
 export type APIProps = {
   readonly appRunner: AppRunnerProps;
+  readonly environment: EnvironmentVariable[];
+  readonly ecr: ECRProps;
+  readonly waf: WAFProps;
+  /**
+   * Sends traces to AWS X-Ray through App Runner's OpenTelemetry collector.
+   */
+  readonly tracing?: TracingProps;
+  /**
+   * Makes the web ACL reject requests that don't carry a generated secret in
+   * this header, which only the front CloudFront distribution sends.
+   */
+  readonly originVerification?: {
+    readonly headerName: string;
+  };
+  readonly customDomain?: {
+    /**
+     * Subdomain of NetworkProps.hostedZoneName, e.g. `api.example.com`.
+     */
+    readonly domainName: string;
+    readonly enableWWWSubdomain: boolean;
+  };
 };
 
 interface StackProps extends CdkStackProps {
-  readonly envType: "dev" | "prod";
+  readonly envType: EnvType;
   readonly commitHash: string;
   readonly apiProps: APIProps;
+  readonly dataProtection: DataProtection;
+  /**
+   * Docker build context of the image, API_PATH unless synthesized offline.
+   */
+  readonly imageDirectory: string;
+  /**
+   * Leaves out the copies of the image into the repository: cdk-ecr-deployment
+   * builds its handler with Docker or downloads it from GitHub.
+   */
+  readonly offline: boolean;
+  readonly naming: Naming;
+  readonly discovery: DiscoveryMode;
+  /**
+   * Handles from NetworkStack and DBStack. When omitted they are read from
+   * the SSM parameters those stacks publish in `ssm` discovery mode.
+   */
+  readonly network?: NetworkHandles;
+  readonly db?: DBHandles;
+  readonly dbLookup?: DBLookupOptions;
+  /**
+   * Route 53 zone the custom domain records are written to.
+   */
+  readonly hostedZoneName?: string;
 }
 
-export class APIStack extends Stack {
+export class APIStack extends Stack implements APIHandles {
+  readonly serviceName: string;
+  readonly serviceId: string;
+  readonly webAclName: string;
+  readonly serviceUrl: string;
+  readonly url: string;
+  readonly originVerification?: APIHandles["originVerification"];
+
   private readonly PORT = 4000;
   private readonly MYSQL_PORT = 3306;
-  private readonly envType: string;
+  private readonly envType: EnvType;
   private readonly commitHash: string;
   private readonly apiProps: APIProps;
+  private readonly dataProtection: DataProtection;
+  private readonly imageDirectory: string;
+  private readonly offline: boolean;
+  private readonly naming: Naming;
+  private readonly network: NetworkHandles;
+  private readonly db: DBHandles;
+  private readonly hostedZoneName?: string;
 
   private readonly repository: ecr.IRepository;
+  private readonly imageDeployments: ecrdeploy.ECRDeployment[];
   private readonly appRunner: aws_apprunner.CfnService;
 
   constructor(scope: Construct, id: string, props: StackProps) {
@@ -50,59 +231,171 @@ export class APIStack extends Stack {
     this.envType = props.envType;
     this.commitHash = props.commitHash;
     this.apiProps = props.apiProps;
+    this.dataProtection = props.dataProtection;
+    this.imageDirectory = props.imageDirectory;
+    this.offline = props.offline;
+    this.naming = props.naming;
+    this.network = props.network ?? lookupNetworkHandles(this, this.naming);
+    this.db = props.db ?? lookupDBHandles(this, this.naming, props.dbLookup);
+    this.hostedZoneName = props.hostedZoneName;
 
-    this.repository = this.imageBuildAndPush();
+    const image = this.imageBuildAndPush();
+    this.repository = image.repository;
+    this.imageDeployments = image.deployments;
     this.addIngessRuleFromAPI();
+    this.serviceName = this.naming.appRunnerName("api");
     this.appRunner = this.newAppRunner();
-    this.newWAF();
+    this.serviceId = this.appRunner.attrServiceId;
+    this.serviceUrl = this.appRunner.attrServiceUrl;
+    this.url = `https://${
+      this.apiProps.customDomain?.domainName ?? this.serviceUrl
+    }`;
+    if (this.apiProps.originVerification) {
+      this.originVerification = this.newOriginVerification(
+        this.apiProps.originVerification.headerName
+      );
+    }
+    this.webAclName = this.newWAF();
+    if (this.apiProps.customDomain) {
+      this.newCustomDomain(this.apiProps.customDomain);
+    }
+    if (this.db.secretRotated) {
+      this.redeployOnRotation();
+    }
+
+    if (props.discovery === "ssm") {
+      publishAPIHandles(this, this.naming, this);
+    }
   }
 
-  private imageBuildAndPush(): ecr.IRepository {
+  /**
+   * Returns the deployments that push the image tags, none when synthesized
+   * offline; the service must not be created or updated before they have run.
+   */
+  private imageBuildAndPush(): {
+    repository: ecr.IRepository;
+    deployments: ecrdeploy.ECRDeployment[];
+  } {
+    const { tagMutability, aliasTag, lifecycle } = this.apiProps.ecr;
+
     const repository = new ecr.Repository(this, "APIRepository", {
-      repositoryName: "api",
+      repositoryName: this.naming.name("api"),
       imageScanOnPush: true,
+      imageTagMutability: ecr.TagMutability[tagMutability],
+      removalPolicy: this.dataProtection.removalPolicy,
+      autoDeleteImages: this.dataProtection.autoDelete,
     });
+    if (lifecycle.untaggedExpirationDays !== undefined) {
+      repository.addLifecycleRule({
+        description: "Expire untagged images",
+        tagStatus: ecr.TagStatus.UNTAGGED,
+        maxImageAge: Duration.days(lifecycle.untaggedExpirationDays),
+      });
+    }
+    if (lifecycle.maxImageCount !== undefined) {
+      repository.addLifecycleRule({
+        description: "Keep only the most recent images",
+        tagStatus: ecr.TagStatus.ANY,
+        maxImageCount: lifecycle.maxImageCount,
+      });
+    }
+
+    if (this.offline) {
+      return { repository, deployments: [] };
+    }
 
     const image = new ecrAssets.DockerImageAsset(this, "DockerImageAsset", {
-      directory: path.join(__dirname, "../..", "api"),
+      directory: this.imageDirectory,
       file: `build/${this.envType}/Dockerfile`,
     });
-    new ecrdeploy.ECRDeployment(this, "DeployDockerImage", {
-      src: new ecrdeploy.DockerImageName(image.imageUri),
-      dest: new ecrdeploy.DockerImageName(repository.repositoryUri),
-    });
+    // The service pulls `<repository>:<commit>`, so that tag must be pushed.
+    const deployments = [
+      new ecrdeploy.ECRDeployment(this, "DeployDockerImage", {
+        src: new ecrdeploy.DockerImageName(image.imageUri),
+        dest: new ecrdeploy.DockerImageName(
+          `${repository.repositoryUri}:${this.commitHash}`
+        ),
+      }),
+    ];
+    if (aliasTag) {
+      deployments.push(
+        new ecrdeploy.ECRDeployment(this, "DeployDockerImageAlias", {
+          src: new ecrdeploy.DockerImageName(image.imageUri),
+          dest: new ecrdeploy.DockerImageName(
+            `${repository.repositoryUri}:${this.naming.prefix}-latest`
+          ),
+        })
+      );
+    }
+    suppressGuardrailOnSingletons(
+      this,
+      "Custom::CDKECRDeployment",
+      "iam-no-wildcard-resource",
+      "cdk-ecr-deployment's handler copies between repositories it only learns at deploy time, and ecr:GetAuthorizationToken has no resource."
+    );
 
-    return repository;
+    return { repository, deployments };
   }
 
-  private addIngessRuleFromAPI(): void {
-    const vpcConnectorSg = ec2.SecurityGroup.fromSecurityGroupId(
-      this,
-      "APIVPCConnectorSecurityGroup",
-      Fn.importValue("vpc-connector-sg-id")
-    );
+  /**
+   * Running instances keep the password they resolved at start, which stops
+   * working once a rotation changes it (immediately in `single` mode, one
+   * rotation later in `multi` mode). A new deployment replaces them with
+   * instances that read the current secret.
+   */
+  private redeployOnRotation(): void {
+    new events.Rule(this, "DBSecretRotationRule", {
+      ruleName: this.naming.name("api-db-secret-rotation"),
+      eventPattern: {
+        source: ["aws.secretsmanager"],
+        detailType: ["AWS Service Event via CloudTrail"],
+        detail: {
+          eventName: ["RotationSucceeded"],
+          additionalEventData: { SecretId: [this.db.secret.secretArn] },
+        },
+      },
+      targets: [
+        new targets.AwsApi({
+          service: "AppRunner",
+          action: "startDeployment",
+          parameters: { ServiceArn: this.appRunner.attrServiceArn },
+          policyStatement: new iam.PolicyStatement({
+            actions: ["apprunner:StartDeployment"],
+            resources: [this.appRunner.attrServiceArn],
+          }),
+        }),
+      ],
+    });
+  }
 
+  private addIngessRuleFromAPI(): void {
+    if (this.db.proxy) {
+      // DBStack lets the VPC connector into the proxy instead.
+      return;
+    }
     const dbSg = ec2.SecurityGroup.fromSecurityGroupId(
       this,
       "DBSecurityGroup",
-      Fn.importValue("db-sg-id")
+      this.db.securityGroup.securityGroupId
     );
     dbSg.addIngressRule(
-      vpcConnectorSg,
+      this.network.vpcConnectorSecurityGroup,
       ec2.Port.tcp(this.MYSQL_PORT),
       "Allow API"
     );
   }
 
   private newAppRunner(): aws_apprunner.CfnService {
-    const { healthCheck, cpu, memory } = this.apiProps.appRunner;
+    const { healthCheck, cpu, memory, autoDeploymentsEnabled } =
+      this.apiProps.appRunner;
+    const environment = this.newRuntimeEnvironment();
 
     const appRunner = new aws_apprunner.CfnService(this, "APIAppRunner", {
-      serviceName: "api",
+      serviceName: this.serviceName,
       sourceConfiguration: {
         authenticationConfiguration: {
           accessRoleArn: new iam.Role(this, "ECRAccessRole", {
-            roleName: "api-access-role",
+            roleName: this.naming.roleName("api-access-role"),
             assumedBy: new iam.ServicePrincipal(
               "build.apprunner.amazonaws.com"
             ),
@@ -113,94 +406,24 @@ export class APIStack extends Stack {
             ],
           }).roleArn,
         },
-        autoDeploymentsEnabled: true,
+        autoDeploymentsEnabled,
         imageRepository: {
           imageIdentifier: `${this.repository.repositoryUri}:${this.commitHash}`,
           imageRepositoryType: "ECR",
           imageConfiguration: {
             port: String(this.PORT),
-            runtimeEnvironmentSecrets: [
-              {
-                name: "MYSQL_HOST",
-                value: ssm.StringParameter.fromSecureStringParameterAttributes(
-                  this,
-                  "DBHostParameter",
-                  {
-                    parameterName: "/db/host",
-                    version: 1,
-                  }
-                ).parameterArn,
-              },
-              {
-                name: "MYSQL_READ_HOST",
-                value: ssm.StringParameter.fromSecureStringParameterAttributes(
-                  this,
-                  "DBReadHostParameter",
-                  {
-                    parameterName: "/db/read-host",
-                    version: 1,
-                  }
-                ).parameterArn,
-              },
-              {
-                name: "MYSQL_PORT",
-                value: ssm.StringParameter.fromSecureStringParameterAttributes(
-                  this,
-                  "DBPortParameter",
-                  {
-                    parameterName: "/db/port",
-                    version: 1,
-                  }
-                ).parameterArn,
-              },
-              {
-                name: "MYSQL_USER",
-                value: ssm.StringParameter.fromSecureStringParameterAttributes(
-                  this,
-                  "DBUserParameter",
-                  {
-                    parameterName: "/db/username",
-                    version: 1,
-                  }
-                ).parameterArn,
-              },
-              {
-                name: "MYSQL_PASSWORD",
-                value: ssm.StringParameter.fromSecureStringParameterAttributes(
-                  this,
-                  "DBPasswordParameter",
-                  {
-                    parameterName: "/db/password",
-                    version: 1,
-                  }
-                ).parameterArn,
-              },
-              {
-                name: "MYSQL_DATABASE",
-                value: ssm.StringParameter.fromSecureStringParameterAttributes(
-                  this,
-                  "DBDatabaseParameter",
-                  {
-                    parameterName: "/db/dbname",
-                    version: 1,
-                  }
-                ).parameterArn,
-              },
-              {
-                name: "TZ",
-                value: ssm.StringParameter.fromSecureStringParameterAttributes(
-                  this,
-                  "DBTzParameter",
-                  {
-                    parameterName: "/db/tz",
-                    version: 1,
-                  }
-                ).parameterArn,
-              },
-            ],
+            runtimeEnvironmentVariables: environment.variables,
+            runtimeEnvironmentSecrets: environment.secrets,
           },
         },
       },
+      autoScalingConfigurationArn: this.newAutoScalingConfiguration(),
+      observabilityConfiguration: this.apiProps.tracing && {
+        observabilityEnabled: true,
+        observabilityConfigurationArn: this.newObservabilityConfiguration(
+          this.apiProps.tracing
+        ),
+      },
       healthCheckConfiguration: {
         interval: healthCheck.interval,
         path: healthCheck.path,
@@ -210,170 +433,292 @@ export class APIStack extends Stack {
         protocol: healthCheck.protocol,
       },
       instanceConfiguration: {
-        instanceRoleArn: new iam.Role(this, "APIInstanceRole", {
-          roleName: "api-instance-role",
-          assumedBy: new iam.ServicePrincipal("tasks.apprunner.amazonaws.com"),
-          inlinePolicies: {
-            SystemsManagerParametersPolicy: new iam.PolicyDocument({
-              statements: [
-                new iam.PolicyStatement({
-                  actions: ["ssm:GetParameters", "ssm:DescribeParameters"],
-                  resources: [
-                    `arn:aws:ssm:${Aws.REGION}:${Aws.ACCOUNT_ID}:parameter/db/*`,
-                    `arn:aws:ssm:${Aws.REGION}:${Aws.ACCOUNT_ID}:parameter/api/*`,
-                  ],
-                  effect: iam.Effect.ALLOW,
-                }),
-              ],
-            }),
-          },
-        }).roleArn,
+        instanceRoleArn: this.newInstanceRole(environment.statements).roleArn,
         cpu: String(cpu),
         memory: String(memory),
       },
       networkConfiguration: {
         egressConfiguration: {
           egressType: "VPC",
-          vpcConnectorArn: Fn.importValue("vpc-connector-arn"),
+          vpcConnectorArn: this.network.vpcConnector.vpcConnectorArn,
         },
         ingressConfiguration: {
           isPubliclyAccessible: true,
         },
       },
     });
-
-    // Custom Domain
-
-    // const apiDomain = "api.example.com";
-    // new cr.AwsCustomResource(this, "APICustomDomain", {
-    //   onCreate: {
-    //     service: "AppRunner",
-    //     action: "associateCustomDomain",
-    //     parameters: {
-    //       DomainName: apiDomain,
-    //       ServiceArn: appRunner.attrServiceArn,
-    //       EnableWWWSubdomain: false,
-    //     },
-    //     physicalResourceId: cr.PhysicalResourceId.of("APICustomDomain"),
-    //   },
-    //   onDelete: {
-    //     service: "AppRunner",
-    //     action: "disassociateCustomDomain",
-    //     parameters: {
-    //       DomainName: apiDomain,
-    //       ServiceArn: appRunner.attrServiceArn,
-    //     },
-    //     physicalResourceId: cr.PhysicalResourceId.of("APICustomDomain"),
-    //   },
-    //   policy: cr.AwsCustomResourcePolicy.fromSdkCalls({
-    //     resources: [appRunner.attrServiceArn],
-    //   }),
-    // });
+    // Without it CloudFormation may point the service at a tag that hasn't
+    // been pushed yet, and App Runner fails to pull it.
+    appRunner.node.addDependency(...this.imageDeployments);
 
     return appRunner;
   }
 
-  private newWAF(): void {
-    const webAcl = new wafv2.CfnWebACL(this, "WebACL", {
-      name: "api-waf",
-      defaultAction: { allow: {} },
-      scope: "REGIONAL",
-      rules: [
-        {
-          name: "AWSManagedRulesSQLiRuleSet",
-          overrideAction: { none: {} },
-          priority: 0,
-          visibilityConfig: {
-            metricName: "AWSManagedRulesSQLiRuleSet",
-            cloudWatchMetricsEnabled: true,
-            sampledRequestsEnabled: true,
-          },
-          statement: {
-            managedRuleGroupStatement: {
-              vendorName: "AWS",
-              name: "AWSManagedRulesSQLiRuleSet",
-              excludedRules: [
-                {
-                  name: "SQLi_QUERYARGUMENTS",
-                },
-              ],
-            },
-          },
-        },
-        {
-          name: "AWSManagedRulesCommonRuleSet",
-          overrideAction: { none: {} },
-          priority: 1,
-          visibilityConfig: {
-            metricName: "AWSManagedRulesCommonRuleSet",
-            cloudWatchMetricsEnabled: true,
-            sampledRequestsEnabled: true,
-          },
-          statement: {
-            managedRuleGroupStatement: {
-              vendorName: "AWS",
-              name: "AWSManagedRulesCommonRuleSet",
-              excludedRules: [
-                {
-                  name: "CrossSiteScripting_BODY",
-                },
-                {
-                  name: "SizeRestrictions_BODY",
-                },
-                {
-                  name: "SizeRestrictions_QUERYSTRING",
-                },
-              ],
-            },
-          },
-        },
-        {
-          name: "AWSManagedRulesKnownBadInputsRuleSet",
-          overrideAction: { none: {} },
-          priority: 2,
-          visibilityConfig: {
-            metricName: "AWSManagedRulesKnownBadInputsRuleSet",
-            cloudWatchMetricsEnabled: true,
-            sampledRequestsEnabled: true,
-          },
-          statement: {
-            managedRuleGroupStatement: {
-              vendorName: "AWS",
-              name: "AWSManagedRulesKnownBadInputsRuleSet",
-            },
-          },
-        },
-        {
-          name: "AWSManagedRulesAmazonIpReputationList",
-          overrideAction: { none: {} },
-          priority: 3,
-          visibilityConfig: {
-            metricName: "AWSManagedRulesAmazonIpReputationList",
-            cloudWatchMetricsEnabled: true,
-            sampledRequestsEnabled: true,
-          },
-          statement: {
-            managedRuleGroupStatement: {
-              vendorName: "AWS",
-              name: "AWSManagedRulesAmazonIpReputationList",
-              excludedRules: [
-                {
-                  name: "AWSManagedIPReputationList",
-                },
-              ],
-            },
-          },
-        },
+  private newInstanceRole(statements: iam.PolicyStatement[]): iam.Role {
+    const role = new iam.Role(this, "APIInstanceRole", {
+      roleName: this.naming.roleName("api-instance-role"),
+      assumedBy: new iam.ServicePrincipal("tasks.apprunner.amazonaws.com"),
+      inlinePolicies:
+        statements.length > 0
+          ? {
+              RuntimeEnvironmentPolicy: new iam.PolicyDocument({ statements }),
+            }
+          : undefined,
+      managedPolicies: this.apiProps.tracing && [
+        iam.ManagedPolicy.fromAwsManagedPolicyName("AWSXRayDaemonWriteAccess"),
       ],
-      visibilityConfig: {
-        metricName: "api-waf",
-        cloudWatchMetricsEnabled: true,
-        sampledRequestsEnabled: true,
+    });
+    const { proxy } = this.db;
+    if (proxy) {
+      for (const user of proxy.iamUsers) {
+        proxy.proxy.grantConnect(role, user);
+      }
+    }
+    return role;
+  }
+
+  /**
+   * Splits the configured environment into plain variables and secret
+   * references, and builds the statements that let the instance role read
+   * exactly the referenced parameters, secrets and customer managed keys.
+   */
+  private newRuntimeEnvironment(): {
+    variables: aws_apprunner.CfnService.KeyValuePairProperty[];
+    secrets: aws_apprunner.CfnService.KeyValuePairProperty[];
+    statements: iam.PolicyStatement[];
+  } {
+    const variables: aws_apprunner.CfnService.KeyValuePairProperty[] = [];
+    const secrets: aws_apprunner.CfnService.KeyValuePairProperty[] = [];
+    const parameterArns: string[] = [];
+    const secretArns: string[] = [];
+    const kmsKeyArns: string[] = [];
+
+    for (const env of this.apiProps.environment) {
+      if ("value" in env) {
+        variables.push({ name: env.name, value: env.value });
+      } else if ("db" in env) {
+        if (env.db === "username" || env.db === "password") {
+          const { secret } = this.db;
+          secretArns.push(secret.secretFullArn ?? `${secret.secretArn}-??????`);
+          secrets.push({
+            name: env.name,
+            value: `${secret.secretArn}:${env.db}::`,
+          });
+        } else {
+          const { parameterArn } = this.db.connectionParameters[env.db];
+          parameterArns.push(parameterArn);
+          secrets.push({ name: env.name, value: parameterArn });
+        }
+      } else if ("ssmParameter" in env) {
+        const parameterArn = this.formatArn({
+          service: "ssm",
+          resource: "parameter",
+          resourceName: env.ssmParameter.replace(/^\//, ""),
+        });
+        parameterArns.push(parameterArn);
+        secrets.push({
+          name: env.name,
+          value:
+            env.version === undefined
+              ? parameterArn
+              : `${parameterArn}:${env.version}`,
+        });
+      } else {
+        const secret = env.secret.startsWith("arn:")
+          ? sm.Secret.fromSecretCompleteArn(
+              this,
+              `${env.name}Secret`,
+              env.secret
+            )
+          : sm.Secret.fromSecretNameV2(this, `${env.name}Secret`, env.secret);
+        // Secrets imported by name only know a partial ARN.
+        const secretArn = secret.secretFullArn ?? `${secret.secretArn}-??????`;
+        secretArns.push(secretArn);
+        secrets.push({
+          name: env.name,
+          value:
+            env.jsonKey === undefined
+              ? secret.secretArn
+              : `${secret.secretArn}:${env.jsonKey}::`,
+        });
+      }
+      if (!("value" in env || "db" in env) && env.kmsKeyArn !== undefined) {
+        kmsKeyArns.push(env.kmsKeyArn);
+      }
+    }
+    if (
+      this.apiProps.tracing &&
+      !this.apiProps.environment.some((env) => env.name === "OTEL_SERVICE_NAME")
+    ) {
+      variables.push({ name: "OTEL_SERVICE_NAME", value: this.serviceName });
+    }
+
+    const statements: iam.PolicyStatement[] = [];
+    if (parameterArns.length > 0) {
+      statements.push(
+        new iam.PolicyStatement({
+          actions: ["ssm:GetParameters"],
+          resources: [...new Set(parameterArns)],
+          effect: iam.Effect.ALLOW,
+        })
+      );
+    }
+    if (secretArns.length > 0) {
+      statements.push(
+        new iam.PolicyStatement({
+          actions: ["secretsmanager:GetSecretValue"],
+          resources: [...new Set(secretArns)],
+          effect: iam.Effect.ALLOW,
+        })
+      );
+    }
+    if (kmsKeyArns.length > 0) {
+      statements.push(
+        new iam.PolicyStatement({
+          actions: ["kms:Decrypt"],
+          resources: [...new Set(kmsKeyArns)],
+          effect: iam.Effect.ALLOW,
+        })
+      );
+    }
+
+    return { variables, secrets, statements };
+  }
+
+  /**
+   * aws-cdk-lib has no L1 construct for this resource type yet.
+   */
+  private newAutoScalingConfiguration(): string {
+    const { minSize, maxSize, maxConcurrency } =
+      this.apiProps.appRunner.autoScaling;
+    return new CfnResource(this, "APIAutoScalingConfiguration", {
+      type: "AWS::AppRunner::AutoScalingConfiguration",
+      properties: {
+        AutoScalingConfigurationName:
+          this.naming.appRunnerConfigurationName("api-autoscaling"),
+        MinSize: minSize,
+        MaxSize: maxSize,
+        MaxConcurrency: maxConcurrency,
+      },
+    })
+      .getAtt("AutoScalingConfigurationArn")
+      .toString();
+  }
+
+  /**
+   * Sampling rules are account-wide, so they only match this service's
+   * segments.
+   */
+  private newObservabilityConfiguration(tracing: TracingProps): string {
+    for (const rule of tracing.samplingRules) {
+      new xray.CfnSamplingRule(this, `${rule.name}SamplingRule`, {
+        samplingRule: {
+          ruleName: this.naming.samplingRuleName(`api-${rule.name}`),
+          priority: rule.priority,
+          reservoirSize: rule.reservoirSize,
+          fixedRate: rule.fixedRate,
+          serviceName: this.serviceName,
+          serviceType: "*",
+          host: rule.host,
+          httpMethod: rule.httpMethod,
+          urlPath: rule.urlPath,
+          resourceArn: "*",
+          version: 1,
+        },
+      });
+    }
+
+    return new aws_apprunner.CfnObservabilityConfiguration(
+      this,
+      "APIObservabilityConfiguration",
+      {
+        observabilityConfigurationName:
+          this.naming.appRunnerConfigurationName("api-observability"),
+        traceConfiguration: { vendor: "AWSXRAY" },
+      }
+    ).attrObservabilityConfigurationArn;
+  }
+
+  private newOriginVerification(
+    headerName: string
+  ): APIHandles["originVerification"] {
+    const secret = new sm.Secret(this, "OriginVerificationSecret", {
+      secretName: this.naming.name("api-origin-verification"),
+      generateSecretString: {
+        passwordLength: 32,
+        excludePunctuation: true,
+      },
+    });
+    return { headerName, secret };
+  }
+
+  private newWAF(): string {
+    const { originVerification } = this;
+    const { webAcl, name } = new WebACL(this, "WebACL", {
+      scope: "REGIONAL",
+      name: "api-waf",
+      naming: this.naming,
+      wafProps: this.apiProps.waf,
+      dataProtection: this.dataProtection,
+      requiredHeader: originVerification && {
+        name: originVerification.headerName,
+        value: originVerification.secret.secretValue.unsafeUnwrap(),
       },
     });
     new wafv2.CfnWebACLAssociation(this, "APIWebACLAssociation", {
       resourceArn: this.appRunner.attrServiceArn,
       webAclArn: webAcl.attrArn,
     });
+    return name;
+  }
+
+  /**
+   * Associates the domain with the service and writes the certificate
+   * validation records App Runner returns, plus the records pointing the
+   * domain at the service. Changing `domainName` associates the new domain
+   * before the old one is disassociated.
+   */
+  private newCustomDomain(
+    customDomain: NonNullable<APIProps["customDomain"]>
+  ): void {
+    const { domainName, enableWWWSubdomain } = customDomain;
+    const association = new AppRunnerCustomDomain(this, "APICustomDomain", {
+      serviceArn: this.appRunner.attrServiceArn,
+      domainName,
+      enableWWWSubdomain,
+    });
+
+    if (this.hostedZoneName === undefined) {
+      throw new Error("hostedZoneName is required for a custom domain");
+    }
+    const zone = route53.HostedZone.fromLookup(this, "HostedZone", {
+      domainName: this.hostedZoneName,
+    });
+    // Record names from the response are tokens, which the L2 records would
+    // suffix with the zone name.
+    const newCnameRecord = (id: string, name: string, value: string) =>
+      new route53.CfnRecordSet(this, id, {
+        hostedZoneId: zone.hostedZoneId,
+        name,
+        type: "CNAME",
+        ttl: "300",
+        resourceRecords: [value],
+      });
+
+    association.validationRecords.forEach(({ name, value }, i) =>
+      newCnameRecord(`APICustomDomainValidationRecord${i}`, name, value)
+    );
+    newCnameRecord(
+      "APICustomDomainRecord",
+      domainName,
+      this.appRunner.attrServiceUrl
+    );
+    if (enableWWWSubdomain) {
+      newCnameRecord(
+        "APICustomDomainWWWRecord",
+        `www.${domainName}`,
+        this.appRunner.attrServiceUrl
+      );
+    }
   }
 }
@@ -0,0 +1,343 @@
+import type { APIProps, DBConnectionSetting } from "../api-stack";
+import { Validator } from "./validator";
+import { validateWAFProps } from "./waf";
+
+export const HEALTH_CHECK_PROTOCOLS = ["TCP", "HTTP"] as const;
+export const TAG_MUTABILITIES = ["MUTABLE", "IMMUTABLE"] as const;
+
+/**
+ * vCPU units mapped to the memory sizes (MB) App Runner accepts with them.
+ */
+export const CPU_MEMORY_COMBINATIONS: Record<number, readonly number[]> = {
+  256: [512, 1024],
+  512: [1024],
+  1024: [2048, 3072, 4096],
+  2048: [4096, 6144],
+  4096: [8192, 10240, 12288],
+};
+
+const ENV_SOURCES = ["value", "ssmParameter", "secret", "db"] as const;
+export const DB_CONNECTION_SETTINGS: readonly DBConnectionSetting[] = [
+  "host",
+  "readHost",
+  "port",
+  "database",
+  "username",
+  "password",
+];
+
+function validateEnvironment(
+  v: Validator,
+  value: unknown,
+  path: string
+): APIProps["environment"] {
+  const names = new Set<string>();
+  return v.array(
+    value,
+    path,
+    (item, itemPath) => {
+      const env = v.object(item, itemPath);
+      const name = v.string(env.name, `${itemPath}.name`, {
+        pattern: /^[A-Za-z_][A-Za-z0-9_]*$/,
+      });
+      if (names.has(name)) {
+        v.report(`${itemPath}.name`, `"${name}" is declared more than once`);
+      }
+      names.add(name);
+      if (name.startsWith("AWSAPPRUNNER")) {
+        v.report(`${itemPath}.name`, "AWSAPPRUNNER* names are reserved");
+      }
+
+      const sources = ENV_SOURCES.filter((key) => env[key] !== undefined);
+      if (sources.length !== 1) {
+        v.report(itemPath, `must set exactly one of ${ENV_SOURCES.join(", ")}`);
+        return { name, value: "" };
+      }
+      const kmsKeyArn = v.optional(
+        env.kmsKeyArn,
+        `${itemPath}.kmsKeyArn`,
+        (arn, arnPath) =>
+          v.string(arn, arnPath, { pattern: /^arn:aws[a-z-]*:kms:/ })
+      );
+
+      switch (sources[0]) {
+        case "db":
+          if (kmsKeyArn !== undefined) {
+            v.report(`${itemPath}.kmsKeyArn`, "is not used with db settings");
+          }
+          return {
+            name,
+            db: v.oneOf(env.db, `${itemPath}.db`, DB_CONNECTION_SETTINGS),
+          };
+        case "value":
+          if (kmsKeyArn !== undefined) {
+            v.report(`${itemPath}.kmsKeyArn`, "is only used with references");
+          }
+          return {
+            name,
+            value: v.string(env.value, `${itemPath}.value`),
+          };
+        case "ssmParameter":
+          return {
+            name,
+            ssmParameter: v.string(
+              env.ssmParameter,
+              `${itemPath}.ssmParameter`,
+              {
+                pattern: /^\/[A-Za-z0-9_.\-/]+$/,
+              }
+            ),
+            version: v.optional(env.version, `${itemPath}.version`, (n, p) =>
+              v.number(n, p, { integer: true, min: 1 })
+            ),
+            kmsKeyArn,
+          };
+        case "secret":
+          return {
+            name,
+            secret: v.string(env.secret, `${itemPath}.secret`),
+            jsonKey: v.optional(env.jsonKey, `${itemPath}.jsonKey`, (k, p) =>
+              v.string(k, p)
+            ),
+            kmsKeyArn,
+          };
+      }
+    },
+    { default: [] }
+  );
+}
+
+function validateTracing(
+  v: Validator,
+  value: unknown,
+  path: string
+): NonNullable<APIProps["tracing"]> {
+  const tracing = v.object(value, path);
+  const names = new Set<string>();
+  return {
+    samplingRules: v.array(
+      tracing.samplingRules,
+      `${path}.samplingRules`,
+      (item, itemPath) => {
+        const rule = v.object(item, itemPath);
+        const name = v.string(rule.name, `${itemPath}.name`, {
+          pattern: /^[a-z0-9-]+$/,
+        });
+        if (names.has(name)) {
+          v.report(`${itemPath}.name`, `"${name}" is declared more than once`);
+        }
+        names.add(name);
+        return {
+          name,
+          priority: v.number(rule.priority, `${itemPath}.priority`, {
+            integer: true,
+            min: 1,
+            max: 9999,
+          }),
+          reservoirSize: v.number(
+            rule.reservoirSize,
+            `${itemPath}.reservoirSize`,
+            { integer: true, min: 0, default: 1 }
+          ),
+          fixedRate: v.number(rule.fixedRate, `${itemPath}.fixedRate`, {
+            min: 0,
+            max: 1,
+          }),
+          host: v.string(rule.host, `${itemPath}.host`, { default: "*" }),
+          httpMethod: v.string(rule.httpMethod, `${itemPath}.httpMethod`, {
+            default: "*",
+          }),
+          urlPath: v.string(rule.urlPath, `${itemPath}.urlPath`, {
+            default: "*",
+          }),
+        };
+      },
+      { default: [] }
+    ),
+  };
+}
+
+export function validateAPIProps(
+  v: Validator,
+  value: unknown,
+  path: string
+): APIProps {
+  const api = v.object(value, path);
+  const appRunner = v.object(api.appRunner, `${path}.appRunner`);
+  const healthCheck = v.object(
+    appRunner.healthCheck ?? {},
+    `${path}.appRunner.healthCheck`
+  );
+
+  const cpu = v.oneOf(
+    appRunner.cpu,
+    `${path}.appRunner.cpu`,
+    Object.keys(CPU_MEMORY_COMBINATIONS).map(Number)
+  );
+  const memory = v.number(appRunner.memory, `${path}.appRunner.memory`, {
+    integer: true,
+  });
+  const memoryOptions = CPU_MEMORY_COMBINATIONS[cpu] ?? [];
+  if (appRunner.memory !== undefined && !memoryOptions.includes(memory)) {
+    v.report(
+      `${path}.appRunner.memory`,
+      `${memory} is not supported with cpu ${cpu} (allowed: ${memoryOptions.join(
+        ", "
+      )})`
+    );
+  }
+
+  const autoScaling = v.object(
+    appRunner.autoScaling ?? {},
+    `${path}.appRunner.autoScaling`
+  );
+  const minSize = v.number(
+    autoScaling.minSize,
+    `${path}.appRunner.autoScaling.minSize`,
+    { integer: true, min: 1, max: 25, default: 1 }
+  );
+  const maxSize = v.number(
+    autoScaling.maxSize,
+    `${path}.appRunner.autoScaling.maxSize`,
+    { integer: true, min: 1, max: 25, default: 25 }
+  );
+  if (maxSize < minSize) {
+    v.report(
+      `${path}.appRunner.autoScaling.maxSize`,
+      `must not be less than minSize (${minSize})`
+    );
+  }
+
+  const protocol = v.oneOf(
+    healthCheck.protocol,
+    `${path}.appRunner.healthCheck.protocol`,
+    HEALTH_CHECK_PROTOCOLS,
+    "TCP"
+  );
+  if (protocol === "TCP" && healthCheck.path !== undefined) {
+    v.report(
+      `${path}.appRunner.healthCheck.path`,
+      "is only used with the HTTP protocol"
+    );
+  }
+
+  const ecr = v.object(api.ecr ?? {}, `${path}.ecr`);
+  const lifecycle = v.object(ecr.lifecycle ?? {}, `${path}.ecr.lifecycle`);
+  const tagMutability = v.oneOf(
+    ecr.tagMutability,
+    `${path}.ecr.tagMutability`,
+    TAG_MUTABILITIES,
+    "MUTABLE"
+  );
+  const aliasTag = v.boolean(ecr.aliasTag, `${path}.ecr.aliasTag`, false);
+  if (aliasTag && tagMutability === "IMMUTABLE") {
+    v.report(
+      `${path}.ecr.aliasTag`,
+      "cannot be moved between images when tagMutability is IMMUTABLE"
+    );
+  }
+
+  return {
+    environment: validateEnvironment(v, api.environment, `${path}.environment`),
+    waf: validateWAFProps(v, api.waf, `${path}.waf`),
+    tracing: v.optional(api.tracing, `${path}.tracing`, (value, tracingPath) =>
+      validateTracing(v, value, tracingPath)
+    ),
+    originVerification: v.optional(
+      api.originVerification,
+      `${path}.originVerification`,
+      (value, originVerificationPath) => {
+        const originVerification = v.object(value, originVerificationPath);
+        return {
+          headerName: v.string(
+            originVerification.headerName,
+            `${originVerificationPath}.headerName`,
+            { default: "x-origin-verify", pattern: /^[a-z0-9-]+$/ }
+          ),
+        };
+      }
+    ),
+    customDomain: v.optional(
+      api.customDomain,
+      `${path}.customDomain`,
+      (value, customDomainPath) => {
+        const customDomain = v.object(value, customDomainPath);
+        return {
+          domainName: v.string(
+            customDomain.domainName,
+            `${customDomainPath}.domainName`,
+            { pattern: /^([a-z0-9-]+\.)+[a-z]{2,}$/ }
+          ),
+          enableWWWSubdomain: v.boolean(
+            customDomain.enableWWWSubdomain,
+            `${customDomainPath}.enableWWWSubdomain`,
+            false
+          ),
+        };
+      }
+    ),
+    ecr: {
+      tagMutability,
+      aliasTag,
+      lifecycle: {
+        untaggedExpirationDays: v.optional(
+          lifecycle.untaggedExpirationDays,
+          `${path}.ecr.lifecycle.untaggedExpirationDays`,
+          (value, valuePath) =>
+            v.number(value, valuePath, { integer: true, min: 1 })
+        ),
+        maxImageCount: v.optional(
+          lifecycle.maxImageCount,
+          `${path}.ecr.lifecycle.maxImageCount`,
+          (value, valuePath) =>
+            v.number(value, valuePath, { integer: true, min: 1 })
+        ),
+      },
+    },
+    appRunner: {
+      cpu,
+      memory,
+      autoScaling: {
+        minSize,
+        maxSize,
+        maxConcurrency: v.number(
+          autoScaling.maxConcurrency,
+          `${path}.appRunner.autoScaling.maxConcurrency`,
+          { integer: true, min: 1, max: 200, default: 100 }
+        ),
+      },
+      autoDeploymentsEnabled: v.boolean(
+        appRunner.autoDeploymentsEnabled,
+        `${path}.appRunner.autoDeploymentsEnabled`,
+        true
+      ),
+      healthCheck: {
+        protocol,
+        path: v.string(healthCheck.path, `${path}.appRunner.healthCheck.path`, {
+          default: "/",
+          pattern: /^\//,
+        }),
+        interval: v.number(
+          healthCheck.interval,
+          `${path}.appRunner.healthCheck.interval`,
+          { integer: true, min: 1, max: 20, default: 5 }
+        ),
+        timeout: v.number(
+          healthCheck.timeout,
+          `${path}.appRunner.healthCheck.timeout`,
+          { integer: true, min: 1, max: 20, default: 2 }
+        ),
+        healthyThreshold: v.number(
+          healthCheck.healthyThreshold,
+          `${path}.appRunner.healthCheck.healthyThreshold`,
+          { integer: true, min: 1, max: 20, default: 1 }
+        ),
+        unhealthyThreshold: v.number(
+          healthCheck.unhealthyThreshold,
+          `${path}.appRunner.healthCheck.unhealthyThreshold`,
+          { integer: true, min: 1, max: 20, default: 5 }
+        ),
+      },
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import type * as ec2 from "aws-cdk-lib/aws-ec2";
+import type { DBBastionProps } from "../db-bastion-stack";
+import { INSTANCE_CLASSES, INSTANCE_SIZES } from "./db";
+import { Validator } from "./validator";
+
+export function validateDBBastionProps(
+  v: Validator,
+  value: unknown,
+  path: string
+): DBBastionProps {
+  const bastion = v.object(value ?? {}, path);
+
+  const instanceClass = v.string(
+    bastion.instanceClass,
+    `${path}.instanceClass`,
+    { default: "t3" }
+  );
+  if (!INSTANCE_CLASSES.includes(instanceClass)) {
+    v.report(`${path}.instanceClass`, `"${instanceClass}" is not supported`);
+  }
+  const instanceSize = v.string(bastion.instanceSize, `${path}.instanceSize`, {
+    default: "micro",
+  });
+  if (!INSTANCE_SIZES.includes(instanceSize)) {
+    v.report(`${path}.instanceSize`, `"${instanceSize}" is not supported`);
+  }
+
+  return {
+    enabled: v.boolean(bastion.enabled, `${path}.enabled`, false),
+    instanceClass: instanceClass as ec2.InstanceClass,
+    instanceSize: instanceSize as ec2.InstanceSize,
+    autoStop: v.optional(
+      bastion.autoStop,
+      `${path}.autoStop`,
+      (autoStop, autoStopPath) => {
+        const raw = v.object(autoStop, autoStopPath);
+        return {
+          schedule: v.string(raw.schedule, `${autoStopPath}.schedule`, {
+            pattern: /^cron\(.+\)$/,
+          }),
+          timezone: v.string(raw.timezone, `${autoStopPath}.timezone`, {
+            default: "UTC",
+          }),
+        };
+      }
+    ),
+  };
+}
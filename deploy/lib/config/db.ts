@@ -0,0 +1,294 @@
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import type { DBInstanceProps, DBProps, DBReaderProps } from "../db-stack";
+import { Validator } from "./validator";
+
+export const INSTANCE_TYPES = ["provisioned", "serverless"] as const;
+export const ROTATION_MODES = ["single", "multi"] as const;
+
+export const INSTANCE_CLASSES: readonly string[] = Object.values(
+  ec2.InstanceClass
+);
+export const INSTANCE_SIZES: readonly string[] = Object.values(
+  ec2.InstanceSize
+);
+// Aurora MySQL versions look like `8.0.mysql_aurora.3.03.0`.
+const ENGINE_VERSION_PATTERN = /^(5\.7|8\.0)\.mysql_aurora\.\d+\.\d+\.\d+$/;
+// An Aurora cluster holds at most 15 replicas besides the writer.
+const MAX_READERS = 15;
+
+function validateInstance(
+  v: Validator,
+  value: unknown,
+  path: string
+): DBInstanceProps {
+  const instance = v.object(value, path);
+  const type = v.oneOf(
+    instance.type,
+    `${path}.type`,
+    INSTANCE_TYPES,
+    "provisioned"
+  );
+  if (type === "serverless") {
+    for (const key of ["instanceClass", "instanceSize"]) {
+      if (instance[key] !== undefined) {
+        v.report(`${path}.${key}`, "is not used with serverless instances");
+      }
+    }
+    return { type };
+  }
+
+  const instanceClass = v.string(
+    instance.instanceClass,
+    `${path}.instanceClass`
+  );
+  if (instanceClass && !INSTANCE_CLASSES.includes(instanceClass)) {
+    v.report(`${path}.instanceClass`, `"${instanceClass}" is not supported`);
+  }
+  const instanceSize = v.string(instance.instanceSize, `${path}.instanceSize`);
+  if (instanceSize && !INSTANCE_SIZES.includes(instanceSize)) {
+    v.report(`${path}.instanceSize`, `"${instanceSize}" is not supported`);
+  }
+  return {
+    type,
+    instanceClass: instanceClass as ec2.InstanceClass,
+    instanceSize: instanceSize as ec2.InstanceSize,
+  };
+}
+
+function validateReader(
+  v: Validator,
+  value: unknown,
+  path: string
+): DBReaderProps {
+  const reader = validateInstance(v, value, path);
+  const promotionTier = v.number(
+    v.object(value, path).promotionTier,
+    `${path}.promotionTier`,
+    { integer: true, min: 0, max: 15, default: 2 }
+  );
+  // Serverless readers in tier 0-1 scale with the writer, the others with
+  // their own load; CDK only models tiers 1 and 2 for them.
+  if (reader.type === "serverless" && promotionTier > 2) {
+    v.report(
+      `${path}.promotionTier`,
+      "must be 0 or 1 (scale with the writer) or 2 for serverless readers"
+    );
+  }
+  return { ...reader, promotionTier };
+}
+
+function validateServerlessV2(v: Validator, value: unknown, path: string) {
+  const serverlessV2 = v.object(value, path);
+  const capacity = (key: string, defaultValue: number) => {
+    const acu = v.number(serverlessV2[key], `${path}.${key}`, {
+      min: 0.5,
+      max: 128,
+      default: defaultValue,
+    });
+    if (!Number.isInteger(acu * 2)) {
+      v.report(`${path}.${key}`, "must be a multiple of 0.5");
+    }
+    return acu;
+  };
+  const minCapacity = capacity("minCapacity", 0.5);
+  const maxCapacity = capacity("maxCapacity", 2);
+  if (minCapacity > maxCapacity) {
+    v.report(path, "minCapacity must not exceed maxCapacity");
+  }
+  return { minCapacity, maxCapacity };
+}
+
+function validateScalableTarget(
+  v: Validator,
+  value: unknown,
+  path: string,
+  readers: number
+) {
+  const scalableTarget = v.object(value, path);
+  const minCapacity = v.number(
+    scalableTarget.minCapacity,
+    `${path}.minCapacity`,
+    { integer: true, min: 0, max: MAX_READERS }
+  );
+  const maxCapacity = v.number(
+    scalableTarget.maxCapacity,
+    `${path}.maxCapacity`,
+    { integer: true, min: 0, max: MAX_READERS }
+  );
+  if (minCapacity > maxCapacity) {
+    v.report(path, "minCapacity must not exceed maxCapacity");
+  }
+  // Aurora Auto Scaling only manages replicas it added itself and tracks the
+  // readers' average CPU, so it needs at least one declared reader and room
+  // for its replicas next to them.
+  if (readers === 0) {
+    v.report(path, "requires at least one reader");
+  }
+  if (readers + maxCapacity > MAX_READERS) {
+    v.report(
+      `${path}.maxCapacity`,
+      `leaves no room for ${readers} reader(s) within ${MAX_READERS} replicas`
+    );
+  }
+
+  return {
+    minCapacity,
+    maxCapacity,
+    targetValue: v.number(scalableTarget.targetValue, `${path}.targetValue`, {
+      min: 1,
+      max: 100,
+    }),
+    scaleInCooldown: v.number(
+      scalableTarget.scaleInCooldown,
+      `${path}.scaleInCooldown`,
+      { integer: true, min: 0, default: 300 }
+    ),
+    scaleOutCooldown: v.number(
+      scalableTarget.scaleOutCooldown,
+      `${path}.scaleOutCooldown`,
+      { integer: true, min: 0, default: 300 }
+    ),
+  };
+}
+
+export function validateDBProps(
+  v: Validator,
+  value: unknown,
+  path: string
+): DBProps {
+  const db = v.object(value, path);
+  const cluster = v.object(db.cluster, `${path}.cluster`);
+  const instance = v.object(cluster.instance, `${path}.cluster.instance`);
+  const backup = v.object(cluster.backup, `${path}.cluster.backup`);
+  const writer = validateInstance(
+    v,
+    instance.writer,
+    `${path}.cluster.instance.writer`
+  );
+  const readers = v.array(
+    instance.readers,
+    `${path}.cluster.instance.readers`,
+    (item, itemPath) => validateReader(v, item, itemPath),
+    { default: [] }
+  );
+  if (readers.length > MAX_READERS) {
+    v.report(
+      `${path}.cluster.instance.readers`,
+      `must contain at most ${MAX_READERS} item(s)`
+    );
+  }
+  const serverless = [writer, ...readers].some(
+    (instance) => instance.type === "serverless"
+  );
+  if (!serverless && cluster.serverlessV2 !== undefined) {
+    v.report(
+      `${path}.cluster.serverlessV2`,
+      "is only used when an instance is serverless"
+    );
+  }
+
+  const rdsProxy = v.optional(
+    db.rdsProxy,
+    `${path}.rdsProxy`,
+    (value, proxyPath) => {
+      const raw = v.object(value, proxyPath);
+      if (readers.length === 0) {
+        v.report(
+          proxyPath,
+          "requires at least one reader for its read-only endpoint"
+        );
+      }
+      return {
+        iamAuth: v.boolean(raw.iamAuth, `${proxyPath}.iamAuth`, true),
+        maxConnectionsPercent: v.number(
+          raw.maxConnectionsPercent,
+          `${proxyPath}.maxConnectionsPercent`,
+          { integer: true, min: 1, max: 100, default: 100 }
+        ),
+      };
+    }
+  );
+
+  const credentials = v.object(db.credentials ?? {}, `${path}.credentials`);
+  const rotation = v.optional(
+    db.rotation,
+    `${path}.rotation`,
+    (value, rotationPath) => {
+      const raw = v.object(value, rotationPath);
+      return {
+        mode: v.oneOf(
+          raw.mode,
+          `${rotationPath}.mode`,
+          ROTATION_MODES,
+          "single"
+        ),
+        automaticallyAfterDays: v.number(
+          raw.automaticallyAfterDays,
+          `${rotationPath}.automaticallyAfterDays`,
+          { integer: true, min: 1, max: 1000, default: 30 }
+        ),
+        appUsername: v.string(raw.appUsername, `${rotationPath}.appUsername`, {
+          default: "app",
+          pattern: /^[a-z][a-z0-9_]*$/,
+          // Leaves room for the `_clone` suffix within MySQL's 32 characters.
+          maxLength: 26,
+        }),
+      };
+    }
+  );
+
+  return {
+    credentials: {
+      username: v.string(credentials.username, `${path}.credentials.username`, {
+        default: "admin",
+        pattern: /^[a-z][a-z0-9_]*$/,
+        maxLength: 16,
+      }),
+    },
+    rotation,
+    rdsProxy,
+    cluster: {
+      preferredMaintenanceWindow: v.string(
+        cluster.preferredMaintenanceWindow,
+        `${path}.cluster.preferredMaintenanceWindow`,
+        { pattern: /^[a-z]{3}:\d{2}:\d{2}-[a-z]{3}:\d{2}:\d{2}$/ }
+      ),
+      backtrackWindow: v.number(
+        cluster.backtrackWindow,
+        `${path}.cluster.backtrackWindow`,
+        { integer: true, min: 0, max: 259200, default: 0 }
+      ),
+      engineVersion: v.string(
+        cluster.engineVersion,
+        `${path}.cluster.engineVersion`,
+        { default: "8.0.mysql_aurora.3.03.0", pattern: ENGINE_VERSION_PATTERN }
+      ),
+      serverlessV2: serverless
+        ? validateServerlessV2(
+            v,
+            cluster.serverlessV2 ?? {},
+            `${path}.cluster.serverlessV2`
+          )
+        : undefined,
+      instance: { writer, readers },
+      backup: {
+        retention: v.number(
+          backup.retention,
+          `${path}.cluster.backup.retention`,
+          { integer: true, min: 1, max: 35, default: 1 }
+        ),
+        preferredWindow: v.string(
+          backup.preferredWindow,
+          `${path}.cluster.backup.preferredWindow`,
+          { pattern: /^\d{2}:\d{2}-\d{2}:\d{2}$/ }
+        ),
+      },
+      scalableTarget: v.optional(
+        cluster.scalableTarget,
+        `${path}.cluster.scalableTarget`,
+        (value, scalableTargetPath) =>
+          validateScalableTarget(v, value, scalableTargetPath, readers.length)
+      ),
+    },
+  };
+}
@@ -0,0 +1,206 @@
+import type { FrontProps, OriginBucketEncryption } from "../front-stack";
+import { Validator } from "./validator";
+import { validateWAFProps } from "./waf";
+
+export const CERTIFICATE_MODES = ["existing", "create"] as const;
+export const ORIGIN_BUCKET_ENCRYPTIONS: readonly OriginBucketEncryption[] = [
+  "S3_MANAGED",
+  "KMS",
+];
+
+function validateDomain(
+  v: Validator,
+  value: unknown,
+  path: string,
+  defaultHostedZoneName?: string
+): FrontProps["domain"] {
+  const domain = v.object(value, path);
+  const certificate = v.object(domain.certificate ?? {}, `${path}.certificate`);
+  const mode = v.oneOf(
+    certificate.mode,
+    `${path}.certificate.mode`,
+    CERTIFICATE_MODES,
+    "create"
+  );
+
+  return {
+    subdomain: v.string(domain.subdomain, `${path}.subdomain`, {
+      pattern: /^([a-z0-9-]+\.)*[a-z0-9-]+$/,
+    }),
+    hostedZoneName: v.string(
+      domain.hostedZoneName ?? defaultHostedZoneName,
+      `${path}.hostedZoneName`,
+      { pattern: /^([a-z0-9-]+\.)+[a-z]{2,}$/ }
+    ),
+    certificate:
+      mode === "existing"
+        ? {
+            mode,
+            // CloudFront only uses certificates from us-east-1.
+            arn: v.string(certificate.arn, `${path}.certificate.arn`, {
+              pattern: /^arn:aws[a-z-]*:acm:us-east-1:\d{12}:certificate\//,
+            }),
+          }
+        : { mode },
+  };
+}
+
+function validateResponseHeaders(
+  v: Validator,
+  value: unknown,
+  path: string
+): FrontProps["responseHeaders"] {
+  const responseHeaders = v.object(value ?? {}, path);
+  const hsts = v.object(
+    responseHeaders.strictTransportSecurity ?? {},
+    `${path}.strictTransportSecurity`
+  );
+  const header = (key: string) =>
+    v.optional(responseHeaders[key], `${path}.${key}`, (header, headerPath) =>
+      v.string(header, headerPath)
+    );
+
+  return {
+    contentSecurityPolicy: header("contentSecurityPolicy"),
+    strictTransportSecurity: {
+      maxAgeSeconds: v.number(
+        hsts.maxAgeSeconds,
+        `${path}.strictTransportSecurity.maxAgeSeconds`,
+        { integer: true, min: 0, default: 31536000 }
+      ),
+      includeSubdomains: v.boolean(
+        hsts.includeSubdomains,
+        `${path}.strictTransportSecurity.includeSubdomains`,
+        false
+      ),
+      preload: v.boolean(
+        hsts.preload,
+        `${path}.strictTransportSecurity.preload`,
+        false
+      ),
+    },
+    permissionsPolicy: header("permissionsPolicy"),
+  };
+}
+
+function validateBuckets(
+  v: Validator,
+  value: unknown,
+  path: string
+): FrontProps["buckets"] {
+  const buckets = v.object(value ?? {}, path);
+  const origin = v.object(buckets.origin ?? {}, `${path}.origin`);
+  const logs = v.object(buckets.logs ?? {}, `${path}.logs`);
+  const days = (raw: unknown, daysPath: string, min = 1) =>
+    v.optional(raw, daysPath, (value, valuePath) =>
+      v.number(value, valuePath, { integer: true, min })
+    );
+
+  // S3 only moves objects to Standard-IA after 30 days, and keeps them
+  // there 30 days before Glacier.
+  const infrequentAccessAfterDays = days(
+    logs.infrequentAccessAfterDays,
+    `${path}.logs.infrequentAccessAfterDays`,
+    30
+  );
+  const glacierAfterDays = days(
+    logs.glacierAfterDays,
+    `${path}.logs.glacierAfterDays`
+  );
+  const expirationDays = days(
+    logs.expirationDays,
+    `${path}.logs.expirationDays`
+  );
+  if (
+    infrequentAccessAfterDays !== undefined &&
+    glacierAfterDays !== undefined &&
+    glacierAfterDays < infrequentAccessAfterDays + 30
+  ) {
+    v.report(
+      `${path}.logs.glacierAfterDays`,
+      "must be at least 30 days after infrequentAccessAfterDays"
+    );
+  }
+  const lastTransition = Math.max(
+    infrequentAccessAfterDays ?? 0,
+    glacierAfterDays ?? 0
+  );
+  if (expirationDays !== undefined && expirationDays <= lastTransition) {
+    v.report(
+      `${path}.logs.expirationDays`,
+      "must be later than every transition"
+    );
+  }
+
+  return {
+    origin: {
+      encryption: v.oneOf(
+        origin.encryption,
+        `${path}.origin.encryption`,
+        ORIGIN_BUCKET_ENCRYPTIONS,
+        "S3_MANAGED"
+      ),
+      versioning: v.optional(
+        origin.versioning,
+        `${path}.origin.versioning`,
+        (value, versioningPath) => {
+          const versioning = v.object(value, versioningPath);
+          return {
+            noncurrentVersionExpirationDays: days(
+              versioning.noncurrentVersionExpirationDays,
+              `${versioningPath}.noncurrentVersionExpirationDays`
+            ),
+          };
+        }
+      ),
+    },
+    logs: { infrequentAccessAfterDays, glacierAfterDays, expirationDays },
+  };
+}
+
+/**
+ * `domain.hostedZoneName` defaults to NetworkProps.hostedZoneName.
+ */
+export function validateFrontProps(
+  v: Validator,
+  value: unknown,
+  path: string,
+  defaultHostedZoneName?: string
+): FrontProps {
+  const front = v.object(value ?? {}, path);
+  return {
+    domain: v.optional(front.domain, `${path}.domain`, (domain, domainPath) =>
+      validateDomain(v, domain, domainPath, defaultHostedZoneName)
+    ),
+    assetsPath: v.string(front.assetsPath, `${path}.assetsPath`, {
+      default: "assets",
+      pattern: /^[A-Za-z0-9_-]+(\/[A-Za-z0-9_-]+)*$/,
+    }),
+    responseHeaders: validateResponseHeaders(
+      v,
+      front.responseHeaders,
+      `${path}.responseHeaders`
+    ),
+    apiOrigin: v.boolean(front.apiOrigin, `${path}.apiOrigin`, false),
+    preview: v.optional(
+      front.preview,
+      `${path}.preview`,
+      (value, previewPath) => {
+        const preview = v.object(value, previewPath);
+        if (front.domain === undefined) {
+          v.report(previewPath, `requires ${path}.domain to be set`);
+        }
+        return {
+          subdomain: v.string(preview.subdomain, `${previewPath}.subdomain`, {
+            default: "preview",
+            pattern: /^([a-z0-9-]+\.)*[a-z0-9-]+$/,
+          }),
+        };
+      }
+    ),
+    waf: v.optional(front.waf, `${path}.waf`, (waf, wafPath) =>
+      validateWAFProps(v, waf, wafPath)
+    ),
+    buckets: validateBuckets(v, front.buckets, `${path}.buckets`),
+  };
+}
@@ -0,0 +1,235 @@
+import * as cdk from "aws-cdk-lib";
+import type { APIProps } from "../api-stack";
+import type { DBBastionProps } from "../db-bastion-stack";
+import type { DBProps } from "../db-stack";
+import type { FrontProps } from "../front-stack";
+import type { MonitoringProps } from "../monitoring";
+import type { NetworkProps } from "../network-stack";
+import type { DataProtectionProfile } from "../data-protection";
+import type { DiscoveryMode } from "../discovery";
+import type { GuardrailMode } from "../guardrails";
+import type { TaggingProps } from "../tagging";
+import { validateAPIProps } from "./api";
+import { validateDBBastionProps } from "./bastion";
+import { validateDBProps } from "./db";
+import { validateFrontProps } from "./front";
+import { validateMonitoringProps } from "./monitoring";
+import { validateNetworkProps } from "./network";
+import { validateTaggingProps } from "./tagging";
+import { Validator } from "./validator";
+
+export { ConfigError } from "./validator";
+
+export const ENV_TYPES = ["dev", "prod"] as const;
+export type EnvType = (typeof ENV_TYPES)[number];
+
+export const DISCOVERY_MODES: readonly DiscoveryMode[] = ["direct", "ssm"];
+export const GUARDRAIL_MODES: readonly GuardrailMode[] = ["error", "warn"];
+export const DATA_PROTECTION_PROFILES: readonly DataProtectionProfile[] = [
+  "destroy",
+  "retain",
+];
+
+/**
+ * Context block every environment inherits from. Values set in the
+ * environment block override it; objects are merged key by key, arrays are
+ * replaced as a whole.
+ */
+const BASE_BLOCK = "base";
+
+export type EnvProps = {
+  readonly discovery: DiscoveryMode;
+  readonly guardrails: GuardrailMode;
+  readonly dataProtection: DataProtectionProfile;
+  readonly tagging: TaggingProps;
+  readonly api: APIProps;
+  readonly network: NetworkProps;
+  readonly db: DBProps;
+  readonly bastion: DBBastionProps;
+  readonly front: FrontProps;
+  readonly monitoring: MonitoringProps;
+};
+
+export type Config = EnvProps & {
+  readonly envType: EnvType;
+  readonly commitHash: string;
+  readonly stage?: string;
+  /**
+   * Branch deployed as a front-end preview, already reduced to a DNS label.
+   */
+  readonly previewBranch?: string;
+  /**
+   * Synthesize without AWS credentials, answering lookups from `fixtures/`.
+   */
+  readonly offline: boolean;
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function merge(base: unknown, override: unknown): unknown {
+  if (override === undefined) {
+    return base;
+  }
+  if (!isObject(base) || !isObject(override)) {
+    return override;
+  }
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = merge(base[key], value);
+  }
+  return merged;
+}
+
+// "feature/Login_Form" -> "feature-login-form"
+function toPreviewLabel(branch: string): string {
+  return branch
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, "-")
+    .replace(/-{2,}/g, "-")
+    .slice(0, 40)
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Reads `-c env`, `-c commit`, `-c stage`, `-c preview`, `-c offline` and the
+ * matching block of cdk.context.json, applies the base block and defaults, and
+ * validates the result. Throws a ConfigError listing every invalid field when
+ * anything is wrong.
+ */
+export function loadConfig(app: cdk.App): Config {
+  const v = new Validator();
+
+  const envType = v.oneOf(app.node.tryGetContext("env"), "env", ENV_TYPES);
+  if (!ENV_TYPES.includes(app.node.tryGetContext("env"))) {
+    // Without a valid environment there is no block to validate.
+    v.assert();
+  }
+  // APIStack publishes and deploys the image tagged with this hash.
+  const rawCommit = app.node.tryGetContext("commit");
+  if (rawCommit === undefined) {
+    v.report("commit", "is required, pass -c commit=<COMMIT_HASH>");
+  }
+  const commitHash =
+    rawCommit === undefined
+      ? ""
+      : v.string(rawCommit, "commit", { pattern: /^[0-9a-f]{7,40}$/ });
+
+  // Optional suffix so several sandboxes of one environment can share an
+  // account, e.g. `-c stage=alice`.
+  const stage = v.optional(
+    app.node.tryGetContext("stage"),
+    "stage",
+    (value, path) => v.string(value, path, { pattern: /^[a-z][a-z0-9]{0,11}$/ })
+  );
+
+  // Branch name of a front-end preview, e.g. `-c preview=feature/login`.
+  const previewBranch = v.optional(
+    app.node.tryGetContext("preview"),
+    "preview",
+    (value, path) => {
+      const label = toPreviewLabel(v.string(value, path));
+      if (label.length === 0) {
+        v.report(path, "must contain a letter or digit");
+      }
+      return label;
+    }
+  );
+
+  // Context from the command line is always a string.
+  const rawOffline = app.node.tryGetContext("offline");
+  const offline = v.boolean(
+    rawOffline === "true" || rawOffline === "false"
+      ? rawOffline === "true"
+      : rawOffline,
+    "offline",
+    false
+  );
+
+  const envBlock = app.node.tryGetContext(envType);
+  if (envBlock === undefined) {
+    v.report(envType, "no configuration block found in cdk.context.json");
+  }
+  const raw = v.object(
+    merge(app.node.tryGetContext(BASE_BLOCK) ?? {}, envBlock ?? {}),
+    envType
+  );
+
+  const network = validateNetworkProps(v, raw.network, `${envType}.network`);
+  const api = validateAPIProps(v, raw.api, `${envType}.api`);
+  const config: Config = {
+    envType,
+    commitHash,
+    stage,
+    previewBranch,
+    offline,
+    discovery: v.oneOf(
+      raw.discovery,
+      `${envType}.discovery`,
+      DISCOVERY_MODES,
+      "direct"
+    ),
+    guardrails: v.oneOf(
+      raw.guardrails,
+      `${envType}.guardrails`,
+      GUARDRAIL_MODES,
+      "error"
+    ),
+    dataProtection: v.oneOf(
+      raw.dataProtection,
+      `${envType}.dataProtection`,
+      DATA_PROTECTION_PROFILES,
+      "retain"
+    ),
+    tagging: validateTaggingProps(v, raw.tagging, `${envType}.tagging`),
+    network,
+    db: validateDBProps(v, raw.db, `${envType}.db`),
+    bastion: validateDBBastionProps(v, raw.bastion, `${envType}.bastion`),
+    api,
+    front: validateFrontProps(
+      v,
+      raw.front,
+      `${envType}.front`,
+      network.hostedZoneName
+    ),
+    monitoring: validateMonitoringProps(
+      v,
+      raw.monitoring,
+      `${envType}.monitoring`,
+      api.appRunner.autoScaling.maxSize
+    ),
+  };
+
+  if (config.api.originVerification && !config.front.apiOrigin) {
+    // Nothing else sends the header, so the API would reject every request.
+    v.report(
+      `${envType}.api.originVerification`,
+      "requires front.apiOrigin to be enabled"
+    );
+  }
+
+  if (previewBranch !== undefined && !config.front.preview) {
+    v.report("preview", `requires ${envType}.front.preview to be set`);
+  }
+
+  const { customDomain } = config.api;
+  if (customDomain) {
+    const zone = config.network.hostedZoneName;
+    if (zone === undefined) {
+      v.report(
+        `${envType}.network.hostedZoneName`,
+        "is required when api.customDomain is set"
+      );
+    } else if (!customDomain.domainName.endsWith(`.${zone}`)) {
+      // App Runner needs a CNAME, which the zone apex can't have.
+      v.report(
+        `${envType}.api.customDomain.domainName`,
+        `must be a subdomain of ${zone}`
+      );
+    }
+  }
+
+  v.assert();
+  return config;
+}
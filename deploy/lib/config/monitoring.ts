@@ -0,0 +1,95 @@
+import type { MonitoringProps } from "../monitoring";
+import { Validator } from "./validator";
+
+type Thresholds = MonitoringProps["thresholds"];
+
+/**
+ * `thresholds.appRunner.activeInstances` defaults to the API's auto scaling
+ * maximum.
+ */
+export function validateMonitoringProps(
+  v: Validator,
+  value: unknown,
+  path: string,
+  defaultActiveInstances: number
+): MonitoringProps {
+  const monitoring = v.object(value ?? {}, path);
+  const notifications = v.object(
+    monitoring.notifications ?? {},
+    `${path}.notifications`
+  );
+  const thresholds = v.object(
+    monitoring.thresholds ?? {},
+    `${path}.thresholds`
+  );
+
+  const sections = new Map<string, Record<string, unknown>>();
+  // Reads `thresholds.<section>.<key>` as a non-negative number.
+  const threshold = <S extends keyof Thresholds>(
+    section: S,
+    key: keyof Thresholds[S] & string,
+    defaultValue: number
+  ) => {
+    if (!sections.has(section)) {
+      sections.set(
+        section,
+        v.object(thresholds[section] ?? {}, `${path}.thresholds.${section}`)
+      );
+    }
+    return v.number(
+      sections.get(section)?.[key],
+      `${path}.thresholds.${section}.${key}`,
+      { min: 0, default: defaultValue }
+    );
+  };
+
+  return {
+    notifications: {
+      emails: v.array(
+        notifications.emails,
+        `${path}.notifications.emails`,
+        (email, emailPath) =>
+          v.string(email, emailPath, { pattern: /^[^@\s]+@[^@\s]+$/ }),
+        { default: [] }
+      ),
+      urls: v.array(
+        notifications.urls,
+        `${path}.notifications.urls`,
+        (url, urlPath) => v.string(url, urlPath, { pattern: /^https:\/\// }),
+        { default: [] }
+      ),
+    },
+    evaluationPeriods: v.number(
+      monitoring.evaluationPeriods,
+      `${path}.evaluationPeriods`,
+      { integer: true, min: 1, max: 288, default: 3 }
+    ),
+    thresholds: {
+      appRunner: {
+        http5xxCount: threshold("appRunner", "http5xxCount", 10),
+        latencyP99Ms: threshold("appRunner", "latencyP99Ms", 3000),
+        activeInstances: threshold(
+          "appRunner",
+          "activeInstances",
+          defaultActiveInstances
+        ),
+      },
+      db: {
+        cpuPercent: threshold("db", "cpuPercent", 80),
+        connections: threshold("db", "connections", 500),
+        replicaLagMs: threshold("db", "replicaLagMs", 1000),
+        freeableMemoryMiB: threshold("db", "freeableMemoryMiB", 256),
+      },
+      cloudFront: {
+        errorRatePercent: threshold("cloudFront", "errorRatePercent", 5),
+      },
+      waf: {
+        blockedRequests: threshold("waf", "blockedRequests", 1000),
+      },
+      nat: {
+        errorPortAllocation: threshold("nat", "errorPortAllocation", 1),
+        packetsDropCount: threshold("nat", "packetsDropCount", 100),
+      },
+    },
+  };
+}
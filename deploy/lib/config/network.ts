@@ -0,0 +1,70 @@
+import type { NetworkProps } from "../network-stack";
+import { Validator } from "./validator";
+
+export const SUBNET_TYPES = ["public", "private", "isolated"] as const;
+
+export function validateNetworkProps(
+  v: Validator,
+  value: unknown,
+  path: string
+): NetworkProps {
+  const network = v.object(value, path);
+  const vpc = v.object(network.vpc, `${path}.vpc`);
+
+  const subnetConfiguration = v.array(
+    vpc.subnetConfiguration,
+    `${path}.vpc.subnetConfiguration`,
+    (item, itemPath) => {
+      const subnet = v.object(item, itemPath);
+      return {
+        cidrMask: v.number(subnet.cidrMask, `${itemPath}.cidrMask`, {
+          integer: true,
+          min: 16,
+          max: 28,
+        }),
+        name: v.string(subnet.name, `${itemPath}.name`),
+        subnetType: v.oneOf(
+          subnet.subnetType,
+          `${itemPath}.subnetType`,
+          SUBNET_TYPES
+        ),
+      };
+    },
+    { minLength: 1 }
+  );
+
+  const natGatewaysCount = v.number(
+    vpc.natGatewaysCount,
+    `${path}.vpc.natGatewaysCount`,
+    { integer: true, min: 0, default: 1 }
+  );
+  if (
+    subnetConfiguration.some((subnet) => subnet.subnetType === "private") &&
+    !subnetConfiguration.some((subnet) => subnet.subnetType === "public")
+  ) {
+    v.report(
+      `${path}.vpc.subnetConfiguration`,
+      "private subnets require a public subnet for their NAT gateways"
+    );
+  }
+
+  return {
+    vpc: {
+      cidr: v.string(vpc.cidr, `${path}.vpc.cidr`, {
+        pattern: /^(\d{1,3}\.){3}\d{1,3}\/\d{1,2}$/,
+      }),
+      maxAzs: v.number(vpc.maxAzs, `${path}.vpc.maxAzs`, {
+        integer: true,
+        min: 1,
+        default: 2,
+      }),
+      subnetConfiguration,
+      natGatewaysCount,
+    },
+    hostedZoneName: v.optional(
+      network.hostedZoneName,
+      `${path}.hostedZoneName`,
+      (value, valuePath) => v.string(value, valuePath)
+    ),
+  };
+}
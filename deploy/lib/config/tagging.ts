@@ -0,0 +1,45 @@
+import { REQUIRED_TAGS, STACK_KEYS, TaggingProps } from "../tagging";
+import { Validator } from "./validator";
+
+// Characters AWS accepts in tag keys and values.
+const TAG_PATTERN = /^[\p{L}\p{Z}\p{N}_.:/=+\-@]+$/u;
+
+export function validateTaggingProps(
+  v: Validator,
+  value: unknown,
+  path: string
+): TaggingProps {
+  const tagging = v.object(value, path);
+  const tagValue = (raw: unknown, valuePath: string) =>
+    v.string(raw, valuePath, { pattern: TAG_PATTERN, maxLength: 256 });
+
+  const rawStacks = v.object(tagging.stacks ?? {}, `${path}.stacks`);
+  const stacks: TaggingProps["stacks"] = {};
+  for (const [key, rawTags] of Object.entries(rawStacks)) {
+    const stackPath = `${path}.stacks.${key}`;
+    if (!(STACK_KEYS as readonly string[]).includes(key)) {
+      v.report(stackPath, `must be one of ${STACK_KEYS.join(", ")}`);
+      continue;
+    }
+    const tags: Record<string, string> = {};
+    for (const [name, raw] of Object.entries(v.object(rawTags, stackPath))) {
+      const tagPath = `${stackPath}.${name}`;
+      if (!TAG_PATTERN.test(name) || name.length > 128) {
+        v.report(tagPath, `"${name}" is not a valid tag key`);
+      } else if (name.toLowerCase().startsWith("aws:")) {
+        v.report(tagPath, 'the "aws:" prefix is reserved');
+      } else if ((REQUIRED_TAGS as readonly string[]).includes(name)) {
+        v.report(tagPath, "is set for every stack and can't be overridden");
+      }
+      tags[name] = tagValue(raw, tagPath);
+    }
+    stacks[key as keyof TaggingProps["stacks"]] = tags;
+  }
+
+  return {
+    service: tagValue(tagging.service, `${path}.service`),
+    owner: tagValue(tagging.owner, `${path}.owner`),
+    costCenter: tagValue(tagging.costCenter, `${path}.costCenter`),
+    stacks,
+  };
+}
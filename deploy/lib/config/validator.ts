@@ -0,0 +1,164 @@
+export class ConfigError extends Error {
+  constructor(readonly issues: string[]) {
+    super(
+      `Invalid configuration:\n${issues
+        .map((issue) => `  - ${issue}`)
+        .join("\n")}`
+    );
+    this.name = "ConfigError";
+  }
+}
+
+type NumberOptions = {
+  readonly default?: number;
+  readonly min?: number;
+  readonly max?: number;
+  readonly integer?: boolean;
+};
+
+type StringOptions = {
+  readonly default?: string;
+  readonly pattern?: RegExp;
+  readonly maxLength?: number;
+};
+
+/**
+ * Collects every problem found while walking a raw context value, so a single
+ * synth reports all invalid fields at once instead of failing on the first.
+ * Each check returns the (defaulted) value so section validators can build
+ * typed props while validating.
+ */
+export class Validator {
+  private readonly issues: string[] = [];
+
+  report(path: string, message: string): void {
+    this.issues.push(`${path}: ${message}`);
+  }
+
+  assert(): void {
+    if (this.issues.length > 0) {
+      throw new ConfigError(this.issues);
+    }
+  }
+
+  object(value: unknown, path: string): Record<string, unknown> {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      this.report(
+        path,
+        value === undefined ? "is required" : "must be an object"
+      );
+      return {};
+    }
+    return value as Record<string, unknown>;
+  }
+
+  string(value: unknown, path: string, options: StringOptions = {}): string {
+    if (value === undefined && options.default !== undefined) {
+      return options.default;
+    }
+    if (typeof value !== "string" || value.length === 0) {
+      this.report(
+        path,
+        value === undefined ? "is required" : "must be a non-empty string"
+      );
+      return "";
+    }
+    if (options.pattern && !options.pattern.test(value)) {
+      this.report(path, `"${value}" must match ${options.pattern}`);
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      this.report(path, `must be at most ${options.maxLength} characters`);
+    }
+    return value;
+  }
+
+  number(value: unknown, path: string, options: NumberOptions = {}): number {
+    if (value === undefined && options.default !== undefined) {
+      return options.default;
+    }
+    if (typeof value !== "number" || Number.isNaN(value)) {
+      this.report(
+        path,
+        value === undefined ? "is required" : "must be a number"
+      );
+      return 0;
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      this.report(path, "must be an integer");
+    }
+    if (options.min !== undefined && value < options.min) {
+      this.report(path, `must be >= ${options.min}`);
+    }
+    if (options.max !== undefined && value > options.max) {
+      this.report(path, `must be <= ${options.max}`);
+    }
+    return value;
+  }
+
+  boolean(value: unknown, path: string, defaultValue?: boolean): boolean {
+    if (value === undefined && defaultValue !== undefined) {
+      return defaultValue;
+    }
+    if (typeof value !== "boolean") {
+      this.report(
+        path,
+        value === undefined ? "is required" : "must be a boolean"
+      );
+      return false;
+    }
+    return value;
+  }
+
+  oneOf<T extends string | number>(
+    value: unknown,
+    path: string,
+    allowed: readonly T[],
+    defaultValue?: T
+  ): T {
+    if (value === undefined && defaultValue !== undefined) {
+      return defaultValue;
+    }
+    if (!allowed.includes(value as T)) {
+      this.report(
+        path,
+        value === undefined
+          ? "is required"
+          : `${JSON.stringify(value)} must be one of ${allowed
+              .map((v) => JSON.stringify(v))
+              .join(", ")}`
+      );
+      return allowed[0];
+    }
+    return value as T;
+  }
+
+  array<T>(
+    value: unknown,
+    path: string,
+    item: (value: unknown, path: string) => T,
+    options: { readonly default?: T[]; readonly minLength?: number } = {}
+  ): T[] {
+    if (value === undefined && options.default !== undefined) {
+      return options.default;
+    }
+    if (!Array.isArray(value)) {
+      this.report(
+        path,
+        value === undefined ? "is required" : "must be an array"
+      );
+      return [];
+    }
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      this.report(path, `must contain at least ${options.minLength} item(s)`);
+    }
+    return value.map((v, i) => item(v, `${path}[${i}]`));
+  }
+
+  optional<T>(
+    value: unknown,
+    path: string,
+    validate: (value: unknown, path: string) => T
+  ): T | undefined {
+    return value === undefined ? undefined : validate(value, path);
+  }
+}
@@ -0,0 +1,230 @@
+import * as logs from "aws-cdk-lib/aws-logs";
+import type { WAFProps } from "../waf";
+import { Validator } from "./validator";
+
+export const WAF_RULE_ACTIONS = ["allow", "block", "count"] as const;
+export const WAF_LOG_DESTINATIONS = ["cloudWatchLogs", "s3"] as const;
+
+const LOG_RETENTION_DAYS = Object.values(logs.RetentionDays).filter(
+  (days): days is number => typeof days === "number"
+);
+const RULE_NAME_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+function validateLogging(
+  v: Validator,
+  value: unknown,
+  path: string
+): WAFProps["logging"] {
+  const logging = v.object(value, path);
+  const destination = v.oneOf(
+    logging.destination,
+    `${path}.destination`,
+    WAF_LOG_DESTINATIONS,
+    "cloudWatchLogs"
+  );
+  const retentionDays =
+    destination === "cloudWatchLogs"
+      ? v.oneOf(
+          logging.retentionDays,
+          `${path}.retentionDays`,
+          LOG_RETENTION_DAYS,
+          logs.RetentionDays.ONE_MONTH
+        )
+      : v.number(logging.retentionDays, `${path}.retentionDays`, {
+          integer: true,
+          min: 1,
+          default: 30,
+        });
+  const redactedFields = v.object(
+    logging.redactedFields ?? {},
+    `${path}.redactedFields`
+  );
+
+  return {
+    destination,
+    retentionDays,
+    redactedFields: {
+      headers: v.array(
+        redactedFields.headers,
+        `${path}.redactedFields.headers`,
+        (item, itemPath) => v.string(item, itemPath).toLowerCase(),
+        { default: ["authorization", "cookie"] }
+      ),
+      queryString: v.boolean(
+        redactedFields.queryString,
+        `${path}.redactedFields.queryString`,
+        false
+      ),
+      uriPath: v.boolean(
+        redactedFields.uriPath,
+        `${path}.redactedFields.uriPath`,
+        false
+      ),
+    },
+  };
+}
+
+/**
+ * Validates a `waf` block. Rule names double as metric names and must be
+ * unique across every kind of rule in the web ACL.
+ */
+export function validateWAFProps(
+  v: Validator,
+  value: unknown,
+  path: string
+): WAFProps {
+  const waf = v.object(value ?? {}, path);
+  const names = new Set<string>();
+  const ruleName = (name: unknown, namePath: string) => {
+    const validated = v.string(name, namePath, { pattern: RULE_NAME_PATTERN });
+    if (names.has(validated)) {
+      v.report(namePath, `"${validated}" is used by another rule`);
+    }
+    names.add(validated);
+    return validated;
+  };
+
+  const ipSets = v.array(
+    waf.ipSets,
+    `${path}.ipSets`,
+    (item, itemPath) => {
+      const ipSet = v.object(item, itemPath);
+      const ipAddressVersion = v.oneOf(
+        ipSet.ipAddressVersion,
+        `${itemPath}.ipAddressVersion`,
+        ["IPV4", "IPV6"] as const,
+        "IPV4"
+      );
+      const pattern =
+        ipAddressVersion === "IPV4"
+          ? /^(\d{1,3}\.){3}\d{1,3}\/\d{1,2}$/
+          : /^[0-9a-fA-F:]+\/\d{1,3}$/;
+      return {
+        name: ruleName(ipSet.name, `${itemPath}.name`),
+        ipAddressVersion,
+        addresses: v.array(
+          ipSet.addresses,
+          `${itemPath}.addresses`,
+          (address, addressPath) => v.string(address, addressPath, { pattern }),
+          { minLength: 1 }
+        ),
+        action: v.oneOf(ipSet.action, `${itemPath}.action`, WAF_RULE_ACTIONS),
+      };
+    },
+    { default: [] }
+  );
+
+  const geoMatches = v.array(
+    waf.geoMatches,
+    `${path}.geoMatches`,
+    (item, itemPath) => {
+      const geoMatch = v.object(item, itemPath);
+      return {
+        name: ruleName(geoMatch.name, `${itemPath}.name`),
+        countryCodes: v.array(
+          geoMatch.countryCodes,
+          `${itemPath}.countryCodes`,
+          (code, codePath) =>
+            v.string(code, codePath, { pattern: /^[A-Z]{2}$/ }),
+          { minLength: 1 }
+        ),
+        negate: v.boolean(geoMatch.negate, `${itemPath}.negate`, false),
+        action: v.oneOf(
+          geoMatch.action,
+          `${itemPath}.action`,
+          WAF_RULE_ACTIONS
+        ),
+      };
+    },
+    { default: [] }
+  );
+
+  const rateLimits = v.array(
+    waf.rateLimits,
+    `${path}.rateLimits`,
+    (item, itemPath) => {
+      const rateLimit = v.object(item, itemPath);
+      return {
+        name: ruleName(rateLimit.name, `${itemPath}.name`),
+        limit: v.number(rateLimit.limit, `${itemPath}.limit`, {
+          integer: true,
+          min: 100,
+          max: 2000000000,
+        }),
+        action: v.oneOf(
+          rateLimit.action,
+          `${itemPath}.action`,
+          ["block", "count"] as const,
+          "block"
+        ),
+      };
+    },
+    { default: [] }
+  );
+
+  const managedRuleGroups = v.array(
+    waf.managedRuleGroups,
+    `${path}.managedRuleGroups`,
+    (item, itemPath) => {
+      const group = v.object(item, itemPath);
+      return {
+        name: ruleName(group.name, `${itemPath}.name`),
+        vendorName: v.string(group.vendorName, `${itemPath}.vendorName`, {
+          default: "AWS",
+        }),
+        version: v.optional(
+          group.version,
+          `${itemPath}.version`,
+          (version, versionPath) => v.string(version, versionPath)
+        ),
+        overrideAction: v.oneOf(
+          group.overrideAction,
+          `${itemPath}.overrideAction`,
+          ["none", "count"] as const,
+          "none"
+        ),
+        excludedRules: v.array(
+          group.excludedRules,
+          `${itemPath}.excludedRules`,
+          (name, namePath) => v.string(name, namePath),
+          { default: [] }
+        ),
+        ruleActionOverrides: v.array(
+          group.ruleActionOverrides,
+          `${itemPath}.ruleActionOverrides`,
+          (override, overridePath) => {
+            const raw = v.object(override, overridePath);
+            return {
+              name: v.string(raw.name, `${overridePath}.name`),
+              action: v.oneOf(
+                raw.action,
+                `${overridePath}.action`,
+                WAF_RULE_ACTIONS
+              ),
+            };
+          },
+          { default: [] }
+        ),
+      };
+    },
+    { default: [] }
+  );
+
+  return {
+    defaultAction: v.oneOf(
+      waf.defaultAction,
+      `${path}.defaultAction`,
+      ["allow", "block"] as const,
+      "allow"
+    ),
+    managedRuleGroups,
+    rateLimits,
+    ipSets,
+    geoMatches,
+    logging: v.optional(
+      waf.logging,
+      `${path}.logging`,
+      (logging, loggingPath) => validateLogging(v, logging, loggingPath)
+    ),
+  };
+}
@@ -0,0 +1,170 @@
+import { CustomResource, Duration, Stack } from "aws-cdk-lib";
+import { Construct } from "constructs";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as lambda from "aws-cdk-lib/aws-lambda";
+import * as cr from "aws-cdk-lib/custom-resources";
+
+type AppRunnerCustomDomainProps = {
+  readonly serviceArn: string;
+  readonly domainName: string;
+  readonly enableWWWSubdomain: boolean;
+};
+
+/**
+ * App Runner fills in the validation records of a domain only after
+ * associating it, and rejects associating a domain twice. onEvent starts the
+ * association, or the disassociation of the old domain on an update;
+ * isComplete associates the new domain once the old one is gone and returns
+ * the records of the domain once App Runner has reported all of them.
+ */
+const HANDLER_CODE = `
+const { AppRunner } = require("@aws-sdk/client-apprunner");
+const apprunner = new AppRunner({});
+
+const ignoreNotFound = (e) => {
+  if (e.name !== "ResourceNotFoundException") throw e;
+};
+
+async function findDomain({ ServiceArn, DomainName }) {
+  let NextToken;
+  do {
+    const page = await apprunner
+      .describeCustomDomains({ ServiceArn, NextToken })
+      .catch(ignoreNotFound);
+    if (!page) return undefined;
+    const domain = page.CustomDomains.find((d) => d.DomainName === DomainName);
+    if (domain) return domain;
+    NextToken = page.NextToken;
+  } while (NextToken);
+  return undefined;
+}
+
+const associate = ({ ServiceArn, DomainName, EnableWWWSubdomain }) =>
+  apprunner.associateCustomDomain({
+    ServiceArn,
+    DomainName,
+    EnableWWWSubdomain: EnableWWWSubdomain === "true",
+  });
+
+const disassociate = ({ ServiceArn, DomainName }) =>
+  apprunner
+    .disassociateCustomDomain({ ServiceArn, DomainName })
+    .catch(ignoreNotFound);
+
+const KEYS = ["ServiceArn", "DomainName", "EnableWWWSubdomain"];
+const replaced = ({ RequestType, ResourceProperties, OldResourceProperties }) =>
+  RequestType === "Update" &&
+  KEYS.some((key) => ResourceProperties[key] !== OldResourceProperties[key]);
+
+exports.onEvent = async (event) => {
+  const props = event.ResourceProperties;
+  if (event.RequestType === "Create") {
+    await associate(props);
+    return { PhysicalResourceId: props.DomainName };
+  }
+  if (event.RequestType === "Delete") {
+    await disassociate(props);
+  } else if (replaced(event)) {
+    await disassociate(event.OldResourceProperties);
+  }
+  return { PhysicalResourceId: event.PhysicalResourceId };
+};
+
+exports.isComplete = async (event) => {
+  const props = event.ResourceProperties;
+  if (event.RequestType === "Delete") return { IsComplete: true };
+  if (replaced(event)) {
+    const old = await findDomain(event.OldResourceProperties);
+    if (old?.Status === "deleting") return { IsComplete: false };
+  }
+  const domain = await findDomain(props);
+  if (!domain) {
+    if (event.RequestType === "Update") await associate(props);
+    return { IsComplete: false };
+  }
+  if (domain.Status.endsWith("failed")) {
+    throw new Error(\`\${props.DomainName} is \${domain.Status}\`);
+  }
+  const records = domain.CertificateValidationRecords ?? [];
+  const count = Number(props.ValidationRecordCount);
+  if (records.length > count) {
+    throw new Error(
+      \`\${props.DomainName} has \${records.length} validation records, expected \${count}\`
+    );
+  }
+  if (domain.Status === "creating" || records.length < count) {
+    return { IsComplete: false };
+  }
+  const Data = {};
+  records.forEach(({ Name, Value }, i) => {
+    Data[\`ValidationRecord\${i}Name\`] = Name;
+    Data[\`ValidationRecord\${i}Value\`] = Value;
+  });
+  return { IsComplete: true, Data };
+};
+`;
+
+/**
+ * Associates a custom domain with an App Runner service. Changing the domain,
+ * `enableWWWSubdomain` or the service disassociates the old domain before
+ * associating the new one.
+ */
+export class AppRunnerCustomDomain extends Construct {
+  /**
+   * The CNAME records App Runner validates the certificates with.
+   */
+  readonly validationRecords: { name: string; value: string }[];
+
+  constructor(scope: Construct, id: string, props: AppRunnerCustomDomainProps) {
+    super(scope, id);
+
+    // One record for the certificate and one for the domain, and another
+    // one for the www subdomain.
+    const count = props.enableWWWSubdomain ? 3 : 2;
+    // Replacing the service moves the domain from the old service, whose ARN
+    // the new one doesn't share.
+    const services = Stack.of(this).formatArn({
+      service: "apprunner",
+      resource: "service",
+      resourceName: "*",
+    });
+    const handler = (name: string) =>
+      new lambda.Function(this, name, {
+        runtime: lambda.Runtime.NODEJS_18_X,
+        code: lambda.Code.fromInline(HANDLER_CODE),
+        handler: `index.${name}`,
+        timeout: Duration.minutes(1),
+        initialPolicy: [
+          new iam.PolicyStatement({
+            actions: [
+              "apprunner:AssociateCustomDomain",
+              "apprunner:DisassociateCustomDomain",
+              "apprunner:DescribeCustomDomains",
+            ],
+            resources: [services],
+          }),
+        ],
+      });
+    const provider = new cr.Provider(this, "Provider", {
+      onEventHandler: handler("onEvent"),
+      isCompleteHandler: handler("isComplete"),
+      queryInterval: Duration.seconds(10),
+      totalTimeout: Duration.minutes(15),
+    });
+    const resource = new CustomResource(this, "Resource", {
+      serviceToken: provider.serviceToken,
+      resourceType: "Custom::AppRunnerCustomDomain",
+      properties: {
+        ServiceArn: props.serviceArn,
+        DomainName: props.domainName,
+        EnableWWWSubdomain: String(props.enableWWWSubdomain),
+        ValidationRecordCount: String(count),
+      },
+    });
+
+    this.validationRecords = [...Array(count).keys()].map((i) => ({
+      name: resource.getAttString(`ValidationRecord${i}Name`),
+      value: resource.getAttString(`ValidationRecord${i}Value`),
+    }));
+  }
+}
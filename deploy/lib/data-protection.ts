@@ -0,0 +1,35 @@
+import { RemovalPolicy } from "aws-cdk-lib";
+
+/**
+ * `destroy` lets `cdk destroy` tear an environment down with its data;
+ * `retain` keeps buckets and images and snapshots the cluster.
+ */
+export type DataProtectionProfile = "destroy" | "retain";
+
+export type DataProtection = {
+  /**
+   * Buckets, the ECR repository and the WAF log groups.
+   */
+  readonly removalPolicy: RemovalPolicy;
+  /**
+   * Empties buckets and the repository before they are deleted, which
+   * CloudFormation can't do by itself.
+   */
+  readonly autoDelete: boolean;
+  readonly cluster: {
+    readonly removalPolicy: RemovalPolicy;
+    readonly deletionProtection: boolean;
+  };
+};
+
+export function dataProtection(profile: DataProtectionProfile): DataProtection {
+  const destroy = profile === "destroy";
+  return {
+    removalPolicy: destroy ? RemovalPolicy.DESTROY : RemovalPolicy.RETAIN,
+    autoDelete: destroy,
+    cluster: {
+      removalPolicy: destroy ? RemovalPolicy.DESTROY : RemovalPolicy.SNAPSHOT,
+      deletionProtection: !destroy,
+    },
+  };
+}
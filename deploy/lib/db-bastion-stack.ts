@@ -1,54 +1,158 @@
-import { StackProps as CdkStackProps, Stack, Fn } from "aws-cdk-lib";
+import { StackProps as CdkStackProps, Stack } from "aws-cdk-lib";
 import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as scheduler from "aws-cdk-lib/aws-scheduler";
 import type { Construct } from "constructs";
+import type { Naming } from "./naming";
+import {
+  DBHandles,
+  NetworkHandles,
+  lookupDBHandles,
+  lookupNetworkHandles,
+} from "./discovery";
+
+export type DBBastionProps = {
+  /**
+   * The stack is only created for environments that enable it.
+   */
+  readonly enabled: boolean;
+  readonly instanceClass: ec2.InstanceClass;
+  readonly instanceSize: ec2.InstanceSize;
+  /**
+   * Stops the instance on an EventBridge Scheduler cron expression, e.g.
+   * `cron(0 22 * * ? *)`, so a forgotten session doesn't keep it running.
+   */
+  readonly autoStop?: {
+    readonly schedule: string;
+    readonly timezone: string;
+  };
+};
 
 interface StackProps extends CdkStackProps {
-  readonly vpc: ec2.Vpc;
+  readonly bastionProps: DBBastionProps;
+  readonly naming: Naming;
+  /**
+   * Handles from NetworkStack and DBStack. When omitted they are read from
+   * the SSM parameters those stacks publish in `ssm` discovery mode.
+   */
+  readonly network?: NetworkHandles;
+  readonly db?: DBHandles;
 }
 
+/**
+ * Host in a private subnet for reaching the cluster through Session Manager
+ * port forwarding. It accepts no inbound traffic and has no key pair.
+ */
 export class DBBastionStack extends Stack {
+  private readonly MYSQL_PORT = 3306;
+  private readonly bastionProps: DBBastionProps;
+  private readonly naming: Naming;
+  private readonly vpc: ec2.IVpc;
+  private readonly db: DBHandles;
+
   constructor(scope: Construct, id: string, props: StackProps) {
     super(scope, id, props);
 
-    const { vpc } = props;
+    this.bastionProps = props.bastionProps;
+    this.naming = props.naming;
+    this.vpc = (props.network ?? lookupNetworkHandles(this, this.naming)).vpc;
+    this.db = props.db ?? lookupDBHandles(this, this.naming);
 
-    const dbBastionSg = new ec2.SecurityGroup(this, "DBBastionSecurityGroup", {
-      securityGroupName: "db-bastion-sg",
-      vpc,
-      allowAllOutbound: true,
-    });
-    dbBastionSg.addIngressRule(
-      ec2.Peer.anyIpv4(),
-      ec2.Port.tcp(22),
-      "Allow SSH"
+    const securityGroup = this.newSecurityGroup();
+    const instance = this.newInstance(securityGroup);
+    if (this.bastionProps.autoStop) {
+      this.newAutoStopSchedule(instance, this.bastionProps.autoStop);
+    }
+  }
+
+  private newSecurityGroup(): ec2.SecurityGroup {
+    const securityGroup = new ec2.SecurityGroup(
+      this,
+      "DBBastionSecurityGroup",
+      {
+        securityGroupName: this.naming.name("db-bastion-sg"),
+        vpc: this.vpc,
+        // Session Manager and the package repositories are reached outbound.
+        allowAllOutbound: true,
+      }
     );
 
     const dbSg = ec2.SecurityGroup.fromSecurityGroupId(
       this,
       "DBSecurityGroup",
-      Fn.importValue("db-sg-id")
+      this.db.securityGroup.securityGroupId
+    );
+    dbSg.addIngressRule(
+      securityGroup,
+      ec2.Port.tcp(this.MYSQL_PORT),
+      "Allow Bastion"
+    );
+
+    return securityGroup;
+  }
+
+  private newInstance(securityGroup: ec2.ISecurityGroup): ec2.Instance {
+    const instanceType = ec2.InstanceType.of(
+      this.bastionProps.instanceClass,
+      this.bastionProps.instanceSize
     );
-    dbSg.addIngressRule(dbBastionSg, ec2.Port.tcp(3306), "Allow Bastion");
 
     const userData = ec2.UserData.forLinux();
-    userData
-      .addCommands
-      // install mysql client
-      ();
-
-    new ec2.Instance(this, "DBBastion", {
-      instanceName: "db-bastion",
-      vpc,
-      securityGroup: dbBastionSg,
-      instanceType: ec2.InstanceType.of(
-        ec2.InstanceClass.T3,
-        ec2.InstanceSize.MICRO
-      ),
-      machineImage: ec2.MachineImage.latestAmazonLinux2(),
+    userData.addCommands("dnf install -y mariadb105");
+
+    return new ec2.Instance(this, "DBBastion", {
+      instanceName: this.naming.name("db-bastion"),
+      vpc: this.vpc,
+      vpcSubnets: { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
+      securityGroup,
+      instanceType,
+      machineImage: ec2.MachineImage.latestAmazonLinux2023({
+        cpuType:
+          instanceType.architecture === ec2.InstanceArchitecture.ARM_64
+            ? ec2.AmazonLinuxCpuType.ARM_64
+            : ec2.AmazonLinuxCpuType.X86_64,
+      }),
       userData,
-      vpcSubnets: { subnets: vpc.publicSubnets },
+      requireImdsv2: true,
       ssmSessionPermissions: true,
-      keyName: "db-bastion-key",
+    });
+  }
+
+  private newAutoStopSchedule(
+    instance: ec2.Instance,
+    autoStop: NonNullable<DBBastionProps["autoStop"]>
+  ): void {
+    const role = new iam.Role(this, "DBBastionAutoStopRole", {
+      roleName: this.naming.roleName("db-bastion-auto-stop-role"),
+      assumedBy: new iam.ServicePrincipal("scheduler.amazonaws.com"),
+      inlinePolicies: {
+        StopInstancePolicy: new iam.PolicyDocument({
+          statements: [
+            new iam.PolicyStatement({
+              actions: ["ec2:StopInstances"],
+              resources: [
+                this.formatArn({
+                  service: "ec2",
+                  resource: "instance",
+                  resourceName: instance.instanceId,
+                }),
+              ],
+            }),
+          ],
+        }),
+      },
+    });
+
+    new scheduler.CfnSchedule(this, "DBBastionAutoStopSchedule", {
+      name: this.naming.name("db-bastion-auto-stop"),
+      scheduleExpression: autoStop.schedule,
+      scheduleExpressionTimezone: autoStop.timezone,
+      flexibleTimeWindow: { mode: "OFF" },
+      target: {
+        arn: "arn:aws:scheduler:::aws-sdk:ec2:stopInstances",
+        roleArn: role.roleArn,
+        input: this.toJsonString({ InstanceIds: [instance.instanceId] }),
+      },
     });
   }
 }
@@ -1,9 +1,8 @@
 import {
   StackProps as CdkStackProps,
   Stack,
-  CfnOutput,
-  SecretValue,
   Duration,
+  Token,
 } from "aws-cdk-lib";
 import { Construct } from "constructs";
 import * as rds from "aws-cdk-lib/aws-rds";
@@ -12,26 +11,61 @@ import * as iam from "aws-cdk-lib/aws-iam";
 import * as sm from "aws-cdk-lib/aws-secretsmanager";
 import * as kms from "aws-cdk-lib/aws-kms";
 import * as appscaling from "aws-cdk-lib/aws-applicationautoscaling";
+import * as ssm from "aws-cdk-lib/aws-ssm";
+import type { DataProtection } from "./data-protection";
+import { suppressGuardrail } from "./guardrails";
+import type { Naming } from "./naming";
+import {
+  DBConnectionParameters,
+  DBHandles,
+  DBLookupOptions,
+  DBProxyHandles,
+  DiscoveryMode,
+  NetworkHandles,
+  lookupNetworkHandles,
+  publishDBHandles,
+} from "./discovery";
+
+export type DBInstanceProps =
+  | {
+      readonly type: "provisioned";
+      readonly instanceClass: ec2.InstanceClass;
+      readonly instanceSize: ec2.InstanceSize;
+    }
+  | { readonly type: "serverless" };
+
+export type DBReaderProps = DBInstanceProps & {
+  readonly promotionTier: number;
+};
 
 export type DBProps = {
   readonly cluster: {
     readonly preferredMaintenanceWindow: string;
     readonly backtrackWindow: number;
+    /**
+     * Full Aurora MySQL version, e.g. `8.0.mysql_aurora.3.03.0`.
+     */
+    readonly engineVersion: string;
+    /**
+     * ACU range shared by every serverless instance. Only set when at least
+     * one instance is serverless.
+     */
+    readonly serverlessV2?: {
+      readonly minCapacity: number;
+      readonly maxCapacity: number;
+    };
     readonly instance: {
-      readonly writer: {
-        readonly instanceSize: string;
-        readonly instanceClass: string;
-      };
-      readonly reader: {
-        readonly instanceSize: string;
-        readonly instanceClass: string;
-      };
+      readonly writer: DBInstanceProps;
+      readonly readers: DBReaderProps[];
     };
     readonly backup: {
       readonly retention: number;
       readonly preferredWindow: string;
     };
-    readonly scalableTarget: {
+    /**
+     * Aurora Auto Scaling of read replicas on top of the declared readers.
+     */
+    readonly scalableTarget?: {
       readonly minCapacity: number;
       readonly maxCapacity: number;
       readonly targetValue: number;
@@ -39,58 +73,138 @@ export type DBProps = {
       readonly scaleOutCooldown: number;
     };
   };
+  readonly credentials: {
+    readonly username: string;
+  };
+  /**
+   * RDS Proxy between the API and the cluster, pooling the connections of
+   * every App Runner instance.
+   */
+  readonly rdsProxy?: {
+    readonly iamAuth: boolean;
+    readonly maxConnectionsPercent: number;
+  };
+  readonly rotation?: {
+    /**
+     * `single` rotates the master user in place. `multi` additionally creates
+     * an application user that alternates with a clone, so connections opened
+     * with the previous password keep working until the next rotation.
+     */
+    readonly mode: "single" | "multi";
+    readonly automaticallyAfterDays: number;
+    readonly appUsername: string;
+  };
 };
 
 interface StackProps extends CdkStackProps {
   readonly dbProps: DBProps;
-  readonly vpc: ec2.Vpc;
+  readonly dataProtection: DataProtection;
+  readonly naming: Naming;
+  readonly discovery: DiscoveryMode;
+  /**
+   * Handles from NetworkStack. When omitted they are read from the SSM
+   * parameters NetworkStack publishes in `ssm` discovery mode.
+   */
+  readonly network?: NetworkHandles;
 }
 
-export class DBStack extends Stack {
+export class DBStack extends Stack implements DBHandles {
   readonly dbProps: DBProps;
-  readonly vpc: ec2.Vpc;
+  readonly vpc: ec2.IVpc;
+  readonly securityGroup: ec2.SecurityGroup;
+  readonly cluster: rds.DatabaseCluster;
+  readonly masterSecret: rds.DatabaseSecret;
+  readonly secret: sm.ISecret;
+  readonly secretRotated: boolean;
+  readonly connectionParameters: DBConnectionParameters;
+  readonly proxy?: DBProxyHandles & { readonly readOnlyEndpoint: string };
 
+  private readonly DATABASE_NAME = "db";
+  private readonly MYSQL_PORT = 3306;
+  private readonly dataProtection: DataProtection;
+  private readonly naming: Naming;
+  private readonly engine: rds.IClusterEngine;
   private readonly role: iam.Role;
-  private readonly securityGroup: ec2.SecurityGroup;
   private readonly paramaterGroup: {
     cluster: rds.ParameterGroup;
     instance: rds.ParameterGroup;
   };
   private readonly subnetGroup: rds.SubnetGroup;
 
+  /**
+   * Users an IAM-authenticated proxy accepts: whoever the API's secret
+   * currently names, which alternates with a clone under multi-user rotation.
+   */
+  static proxyIamUsers(dbProps: DBProps): string[] {
+    if (!dbProps.rdsProxy?.iamAuth) {
+      return [];
+    }
+    const { rotation } = dbProps;
+    return rotation?.mode === "multi"
+      ? [rotation.appUsername, `${rotation.appUsername}_clone`]
+      : [dbProps.credentials.username];
+  }
+
+  static lookupOptions(dbProps: DBProps): DBLookupOptions {
+    return {
+      secretRotated: dbProps.rotation !== undefined,
+      proxy: dbProps.rdsProxy && { iamUsers: DBStack.proxyIamUsers(dbProps) },
+    };
+  }
+
   constructor(scope: Construct, id: string, props: StackProps) {
     super(scope, id, props);
 
     this.dbProps = props.dbProps;
-    this.vpc = props.vpc;
+    this.dataProtection = props.dataProtection;
+    this.naming = props.naming;
+    const network = props.network ?? lookupNetworkHandles(this, this.naming);
+    this.vpc = network.vpc;
 
+    this.engine = this.newEngine();
     this.role = this.newRole();
     this.securityGroup = this.newSecurityGroup();
     this.paramaterGroup = this.newParameterGroup();
     this.subnetGroup = this.newSubnetGroup();
-    this.newCluster();
+    this.masterSecret = this.newMasterSecret();
+    this.cluster = this.newCluster();
+    this.secret = this.addRotation();
+    this.secretRotated = this.dbProps.rotation !== undefined;
+    if (this.dbProps.rdsProxy) {
+      this.proxy = this.newProxy(
+        this.dbProps.rdsProxy,
+        network.vpcConnectorSecurityGroup
+      );
+    }
+    this.connectionParameters = this.newConnectionParameters();
+
+    if (props.discovery === "ssm") {
+      publishDBHandles(this, this.naming, this);
+    }
+  }
+
+  private newEngine(): rds.IClusterEngine {
+    const { engineVersion } = this.dbProps.cluster;
+    // `8.0.mysql_aurora.3.03.0` -> `8.0`
+    const majorVersion = engineVersion.split(".mysql_aurora.")[0];
+    return rds.DatabaseClusterEngine.auroraMysql({
+      version: rds.AuroraMysqlEngineVersion.of(engineVersion, majorVersion),
+    });
   }
 
   private newRole(): iam.Role {
     return new iam.Role(this, "DBRole", {
-      roleName: "db-role",
+      roleName: this.naming.roleName("db-role"),
       assumedBy: new iam.ServicePrincipal("rds.amazonaws.com"),
     });
   }
 
   private newSecurityGroup(): ec2.SecurityGroup {
-    const dbSg = new ec2.SecurityGroup(this, "DBSecurityGroup", {
-      securityGroupName: "db-sg",
+    return new ec2.SecurityGroup(this, "DBSecurityGroup", {
+      securityGroupName: this.naming.name("db-sg"),
       vpc: this.vpc,
       allowAllOutbound: true,
     });
-
-    new CfnOutput(this, "DBSecurityGroupIdOutput", {
-      exportName: "db-sg-id",
-      value: dbSg.securityGroupId,
-    });
-
-    return dbSg;
   }
 
   private newParameterGroup(): {
@@ -98,16 +212,12 @@ export class DBStack extends Stack {
     instance: rds.ParameterGroup;
   } {
     const cluster = new rds.ParameterGroup(this, "ClusterParameterGroup", {
-      engine: rds.DatabaseClusterEngine.auroraMysql({
-        version: rds.AuroraMysqlEngineVersion.VER_3_03_0,
-      }),
+      engine: this.engine,
     });
     cluster.addParameter("aws_default_s3_role", this.role.roleArn);
 
     const instance = new rds.ParameterGroup(this, "InstanceParameterGroup", {
-      engine: rds.DatabaseClusterEngine.auroraMysql({
-        version: rds.AuroraMysqlEngineVersion.VER_3_03_0,
-      }),
+      engine: this.engine,
     });
 
     return { cluster, instance };
@@ -116,7 +226,7 @@ export class DBStack extends Stack {
   private newSubnetGroup(): rds.SubnetGroup {
     return new rds.SubnetGroup(this, "SubnetGroup", {
       vpc: this.vpc,
-      subnetGroupName: "db-subnet-group",
+      subnetGroupName: this.naming.dbIdentifier("db-subnet-group"),
       vpcSubnets: {
         subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
       },
@@ -124,34 +234,59 @@ export class DBStack extends Stack {
     });
   }
 
-  private newCluster(): rds.DatabaseCluster {
-    const initDBSecret = sm.Secret.fromSecretNameV2(
-      this,
-      "DBInitSecret",
-      "db-init-secret"
-    );
-    const dbSecret = new sm.Secret(this, "DBSecret", {
-      secretName: "db-secret",
-      secretObjectValue: {
-        username: SecretValue.unsafePlainText(
-          initDBSecret.secretValueFromJson("username").unsafeUnwrap()
-        ),
-        password: SecretValue.unsafePlainText(
-          initDBSecret.secretValueFromJson("password").unsafeUnwrap()
-        ),
-      },
+  private newMasterSecret(): rds.DatabaseSecret {
+    return new rds.DatabaseSecret(this, "DBSecret", {
+      secretName: this.naming.name("db-secret"),
+      username: this.dbProps.credentials.username,
     });
+  }
 
+  /**
+   * Schedules rotation inside the VPC and returns the secret the API should
+   * read. App Runner only resolves secrets when an instance starts, so
+   * APIStack redeploys the service after every rotation.
+   */
+  private addRotation(): sm.ISecret {
+    const { rotation } = this.dbProps;
+    if (rotation === undefined) {
+      return this.masterSecret;
+    }
+
+    const options = {
+      automaticallyAfter: Duration.days(rotation.automaticallyAfterDays),
+      vpcSubnets: { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
+    };
+    this.cluster.addRotationSingleUser(options);
+    if (rotation.mode === "single") {
+      return this.masterSecret;
+    }
+
+    const appSecret = new rds.DatabaseSecret(this, "DBAppSecret", {
+      secretName: this.naming.name("db-app-secret"),
+      username: rotation.appUsername,
+      masterSecret: this.masterSecret,
+    }).attach(this.cluster);
+    this.cluster.addRotationMultiUser("AppSecretRotation", {
+      ...options,
+      secret: appSecret,
+    });
+    return appSecret;
+  }
+
+  /**
+   * Under the `retain` profile, deleting the cluster first requires turning
+   * deletion protection off, and still leaves a final snapshot.
+   */
+  private newCluster(): rds.DatabaseCluster {
+    const { removalPolicy, deletionProtection } = this.dataProtection.cluster;
     const cluster = new rds.DatabaseCluster(this, "DatabaseCluster", {
-      defaultDatabaseName: "db",
-      clusterIdentifier: "db-cluster",
+      defaultDatabaseName: this.DATABASE_NAME,
+      clusterIdentifier: this.naming.dbIdentifier("db-cluster"),
       parameterGroup: this.paramaterGroup.cluster,
       securityGroups: [this.securityGroup],
       subnetGroup: this.subnetGroup,
-      engine: rds.DatabaseClusterEngine.auroraMysql({
-        version: rds.AuroraMysqlEngineVersion.VER_3_03_0,
-      }),
-      credentials: rds.Credentials.fromSecret(dbSecret),
+      engine: this.engine,
+      credentials: rds.Credentials.fromSecret(this.masterSecret),
       preferredMaintenanceWindow:
         this.dbProps.cluster.preferredMaintenanceWindow,
       storageEncrypted: true,
@@ -160,91 +295,178 @@ export class DBStack extends Stack {
       }),
       backtrackWindow: Duration.seconds(this.dbProps.cluster.backtrackWindow),
       cloudwatchLogsExports: ["error", "slowquery"],
-      writer: rds.ClusterInstance.provisioned("writer", {
-        instanceIdentifier: "instance1",
-        instanceType: ec2.InstanceType.of(
-          this.getRDSInstanceClass(
-            this.dbProps.cluster.instance.writer.instanceClass
-          ),
-          this.getRDSInstanceSize(
-            this.dbProps.cluster.instance.writer.instanceSize
-          )
-        ),
-        parameterGroup: this.paramaterGroup.instance,
-      }),
-      readers: [
-        rds.ClusterInstance.provisioned("reader1", {
-          instanceIdentifier: "instance2",
-          instanceType: ec2.InstanceType.of(
-            this.getRDSInstanceClass(
-              this.dbProps.cluster.instance.reader.instanceClass
-            ),
-            this.getRDSInstanceSize(
-              this.dbProps.cluster.instance.reader.instanceSize
-            )
-          ),
-          parameterGroup: this.paramaterGroup.instance,
-        }),
-      ],
+      serverlessV2MinCapacity: this.dbProps.cluster.serverlessV2?.minCapacity,
+      serverlessV2MaxCapacity: this.dbProps.cluster.serverlessV2?.maxCapacity,
+      writer: this.newClusterInstance(
+        "writer",
+        "instance1",
+        this.dbProps.cluster.instance.writer
+      ),
+      readers: this.dbProps.cluster.instance.readers.map((reader, i) =>
+        this.newClusterInstance(`reader${i + 1}`, `instance${i + 2}`, reader)
+      ),
       storageType: rds.DBClusterStorageType.AURORA,
       vpc: this.vpc,
       backup: {
         retention: Duration.days(this.dbProps.cluster.backup.retention),
         preferredWindow: this.dbProps.cluster.backup.preferredWindow,
       },
-      deletionProtection: true,
+      deletionProtection,
+      removalPolicy,
     });
+    if (!deletionProtection) {
+      suppressGuardrail(
+        cluster,
+        "rds-deletion-protection",
+        "The destroy data protection profile lets cdk destroy delete the cluster."
+      );
+    }
+
+    if (this.dbProps.cluster.scalableTarget) {
+      this.newScalableTarget(cluster, this.dbProps.cluster.scalableTarget);
+    }
 
+    return cluster;
+  }
+
+  private newClusterInstance(
+    id: string,
+    identifier: string,
+    props: DBInstanceProps | DBReaderProps
+  ): rds.IClusterInstance {
+    const options = {
+      instanceIdentifier: this.naming.dbIdentifier(identifier),
+      parameterGroup: this.paramaterGroup.instance,
+    };
+    const promotionTier =
+      "promotionTier" in props ? props.promotionTier : undefined;
+    if (props.type === "serverless") {
+      // CDK places serverless readers in tier 1 when they scale with the
+      // writer (as tiers 0-1 do) and in tier 2 otherwise.
+      return rds.ClusterInstance.serverlessV2(id, {
+        ...options,
+        scaleWithWriter: promotionTier !== undefined && promotionTier <= 1,
+      });
+    }
+    return rds.ClusterInstance.provisioned(id, {
+      ...options,
+      instanceType: ec2.InstanceType.of(
+        props.instanceClass,
+        props.instanceSize
+      ),
+      promotionTier,
+    });
+  }
+
+  private newScalableTarget(
+    cluster: rds.DatabaseCluster,
+    props: NonNullable<DBProps["cluster"]["scalableTarget"]>
+  ): void {
     const scalableTarget = new appscaling.ScalableTarget(
       this,
       "ScalableTarget",
       {
         serviceNamespace: appscaling.ServiceNamespace.RDS,
-        maxCapacity: this.dbProps.cluster.scalableTarget.maxCapacity,
-        minCapacity: this.dbProps.cluster.scalableTarget.minCapacity,
+        maxCapacity: props.maxCapacity,
+        minCapacity: props.minCapacity,
         resourceId: `cluster:${cluster.clusterIdentifier}`,
         scalableDimension: "rds:cluster:ReadReplicaCount",
       }
     );
     scalableTarget.scaleToTrackMetric("Tracking", {
-      policyName: "db-scale-policy",
-      targetValue: this.dbProps.cluster.scalableTarget.targetValue,
+      policyName: this.naming.name("db-scale-policy"),
+      targetValue: props.targetValue,
       predefinedMetric:
         appscaling.PredefinedMetric.RDS_READER_AVERAGE_CPU_UTILIZATION,
-      scaleInCooldown: Duration.seconds(
-        this.dbProps.cluster.scalableTarget.scaleInCooldown
-      ),
-      scaleOutCooldown: Duration.seconds(
-        this.dbProps.cluster.scalableTarget.scaleOutCooldown
-      ),
+      scaleInCooldown: Duration.seconds(props.scaleInCooldown),
+      scaleOutCooldown: Duration.seconds(props.scaleOutCooldown),
     });
-
-    return cluster;
   }
 
-  private getRDSInstanceSize(size: string): ec2.InstanceSize {
-    switch (size) {
-      case "small":
-        return ec2.InstanceSize.SMALL;
-      case "medium":
-        return ec2.InstanceSize.MEDIUM;
-      case "large":
-        return ec2.InstanceSize.LARGE;
-      default:
-        throw new Error("Invalid instance size");
-    }
+  private newProxy(
+    props: NonNullable<DBProps["rdsProxy"]>,
+    clientSecurityGroup: ec2.ISecurityGroup
+  ): DBProxyHandles & { readonly readOnlyEndpoint: string } {
+    const securityGroup = new ec2.SecurityGroup(this, "DBProxySecurityGroup", {
+      securityGroupName: this.naming.name("db-proxy-sg"),
+      vpc: this.vpc,
+      allowAllOutbound: true,
+    });
+    securityGroup.addIngressRule(
+      clientSecurityGroup,
+      ec2.Port.tcp(this.MYSQL_PORT),
+      "Allow API"
+    );
+
+    const vpcSubnets = { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS };
+    const secrets = [this.masterSecret, this.secret].filter(
+      (secret, i, all) => all.indexOf(secret) === i
+    );
+    const proxy = this.cluster.addProxy("DBProxy", {
+      dbProxyName: this.naming.dbIdentifier("db-proxy"),
+      vpc: this.vpc,
+      vpcSubnets,
+      securityGroups: [securityGroup],
+      secrets,
+      iamAuth: props.iamAuth,
+      requireTLS: true,
+      maxConnectionsPercent: props.maxConnectionsPercent,
+    });
+
+    // The default endpoint is read/write; reads go to the replicas through a
+    // separate read-only endpoint.
+    const readOnlyEndpoint = new rds.CfnDBProxyEndpoint(
+      this,
+      "DBProxyReadOnlyEndpoint",
+      {
+        dbProxyName: proxy.dbProxyName,
+        dbProxyEndpointName: this.naming.dbIdentifier("db-proxy-read-only"),
+        targetRole: "READ_ONLY",
+        vpcSubnetIds: this.vpc.selectSubnets(vpcSubnets).subnetIds,
+        vpcSecurityGroupIds: [securityGroup.securityGroupId],
+      }
+    );
+
+    return {
+      proxy,
+      iamUsers: DBStack.proxyIamUsers(this.dbProps),
+      readOnlyEndpoint: readOnlyEndpoint.attrEndpoint,
+    };
   }
 
-  private getRDSInstanceClass(instanceClass: string): ec2.InstanceClass {
-    switch (instanceClass) {
-      case "t3":
-        return ec2.InstanceClass.T3;
-      case "t3a":
-        return ec2.InstanceClass.T3A;
-      case "t4g":
-        return ec2.InstanceClass.T4G;
-      default:
-        throw new Error("Invalid instance class");
-    }
+  /**
+   * Publishes the connection settings the API reads at start, so no
+   * parameters have to be created by hand. Credentials stay in the secret.
+   */
+  private newConnectionParameters(): DBConnectionParameters {
+    const newParameter = (id: string, name: string, value: string) =>
+      new ssm.StringParameter(this, id, {
+        parameterName: this.naming.parameterName(name),
+        stringValue: value,
+      });
+
+    return {
+      host: newParameter(
+        "DBHostParameter",
+        "db/host",
+        this.proxy?.proxy.endpoint ?? this.cluster.clusterEndpoint.hostname
+      ),
+      readHost: newParameter(
+        "DBReadHostParameter",
+        "db/read-host",
+        this.proxy?.readOnlyEndpoint ??
+          this.cluster.clusterReadEndpoint.hostname
+      ),
+      port: newParameter(
+        "DBPortParameter",
+        "db/port",
+        Token.asString(this.cluster.clusterEndpoint.port)
+      ),
+      database: newParameter(
+        "DBDatabaseParameter",
+        "db/dbname",
+        this.DATABASE_NAME
+      ),
+    };
   }
 }
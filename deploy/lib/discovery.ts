@@ -0,0 +1,439 @@
+import { Fn, Token } from "aws-cdk-lib";
+import { Construct } from "constructs";
+import * as cloudfront from "aws-cdk-lib/aws-cloudfront";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as rds from "aws-cdk-lib/aws-rds";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import * as ssm from "aws-cdk-lib/aws-ssm";
+import * as sm from "aws-cdk-lib/aws-secretsmanager";
+import * as apprunner from "@aws-cdk/aws-apprunner-alpha";
+import type { Naming } from "./naming";
+
+/**
+ * How stacks find the resources of the stacks they depend on.
+ *
+ * - `direct`: handles are passed as props and CDK wires the references.
+ * - `ssm`: producers publish identifiers as SSM parameters and consumers read
+ *   them back, so the stacks can be deployed from separate CDK apps without
+ *   CloudFormation exports between them.
+ */
+export type DiscoveryMode = "direct" | "ssm";
+
+export interface NetworkHandles {
+  readonly vpc: ec2.IVpc;
+  readonly vpcConnector: apprunner.IVpcConnector;
+  readonly vpcConnectorSecurityGroup: ec2.ISecurityGroup;
+  readonly natGatewayIds: string[];
+}
+
+/**
+ * What consumers can't read back from SSM at synth time: how many NAT
+ * gateways NetworkStack creates.
+ */
+export type NetworkLookupOptions = {
+  readonly natGatewaysCount?: number;
+};
+
+export type DBConnectionParameters = {
+  readonly host: ssm.IStringParameter;
+  readonly readHost: ssm.IStringParameter;
+  readonly port: ssm.IStringParameter;
+  readonly database: ssm.IStringParameter;
+};
+
+export type DBProxyHandles = {
+  readonly proxy: rds.IDatabaseProxy;
+  /**
+   * Database users the API may connect as with IAM authentication. Empty when
+   * the proxy authenticates with passwords.
+   */
+  readonly iamUsers: string[];
+};
+
+export interface DBHandles {
+  readonly cluster: rds.IDatabaseCluster;
+  readonly securityGroup: ec2.ISecurityGroup;
+  /**
+   * Secret holding the `username` and `password` the API connects with.
+   */
+  readonly secret: sm.ISecret;
+  /**
+   * Whether Secrets Manager rotates `secret`.
+   */
+  readonly secretRotated: boolean;
+  /**
+   * Parameters DBStack always publishes with the connection settings.
+   */
+  readonly connectionParameters: DBConnectionParameters;
+  /**
+   * RDS Proxy in front of the cluster. When set, the published hosts are the
+   * proxy endpoints and only the proxy accepts connections from the API.
+   */
+  readonly proxy?: DBProxyHandles;
+}
+
+/**
+ * What consumers can't read back from SSM at synth time: whether DBStack
+ * runs an RDS Proxy, and which users it accepts with IAM authentication.
+ */
+export type DBLookupOptions = {
+  readonly secretRotated?: boolean;
+  readonly proxy?: {
+    readonly iamUsers: string[];
+  };
+};
+
+export interface APIHandles {
+  readonly serviceName: string;
+  readonly serviceId: string;
+  readonly webAclName: string;
+  /**
+   * Host name of the App Runner service, without a scheme.
+   */
+  readonly serviceUrl: string;
+  /**
+   * Base URL clients call: the custom domain when one is associated,
+   * otherwise the service URL.
+   */
+  readonly url: string;
+  /**
+   * Header the API's web ACL requires on every request, holding the value of
+   * `secret`. Only CloudFront is given the value.
+   */
+  readonly originVerification?: {
+    readonly headerName: string;
+    readonly secret: sm.ISecret;
+  };
+}
+
+/**
+ * What consumers can't read back from SSM at synth time: whether APIStack
+ * requires an origin verification header.
+ */
+export type APILookupOptions = {
+  readonly originVerification?: {
+    readonly headerName: string;
+  };
+};
+
+export interface FrontPreviewHandles {
+  readonly bucket: s3.IBucket;
+  readonly distribution: cloudfront.IDistribution;
+}
+
+export interface FrontHandles {
+  readonly distribution: cloudfront.IDistribution;
+}
+
+type Parameters = Record<string, string>;
+
+// "db/sg-id" -> "DbSgId"
+function toConstructId(name: string): string {
+  return name
+    .split(/[/-]/)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("");
+}
+
+function publish(scope: Construct, naming: Naming, parameters: Parameters) {
+  for (const [name, value] of Object.entries(parameters)) {
+    new ssm.StringParameter(scope, `${toConstructId(name)}Parameter`, {
+      parameterName: naming.parameterName(name),
+      stringValue: value,
+    });
+  }
+}
+
+/**
+ * Builds an object whose properties are created on first access, so a
+ * consumer only gets the SSM parameters and lookups for the handles it
+ * actually uses.
+ */
+function lazy<T extends object>(factories: { [K in keyof T]: () => T[K] }): T {
+  const handles = {} as T;
+  for (const key of Object.keys(factories) as (keyof T)[]) {
+    let value: T[typeof key] | undefined;
+    Object.defineProperty(handles, key, {
+      get: () => (value ??= factories[key]()),
+      enumerable: true,
+    });
+  }
+  return handles;
+}
+
+function read(scope: Construct, naming: Naming, name: string): string {
+  return ssm.StringParameter.valueForStringParameter(
+    scope,
+    naming.parameterName(name)
+  );
+}
+
+function importParameter(
+  scope: Construct,
+  naming: Naming,
+  name: string
+): ssm.IStringParameter {
+  return ssm.StringParameter.fromStringParameterName(
+    scope,
+    `${toConstructId(name)}ParameterHandle`,
+    naming.parameterName(name)
+  );
+}
+
+export function publishNetworkHandles(
+  scope: Construct,
+  naming: Naming,
+  handles: NetworkHandles
+): void {
+  publish(scope, naming, {
+    "network/vpc-connector-arn": handles.vpcConnector.vpcConnectorArn,
+    "network/vpc-connector-name": handles.vpcConnector.vpcConnectorName,
+    "network/vpc-connector-revision": Token.asString(
+      handles.vpcConnector.vpcConnectorRevision
+    ),
+    "network/vpc-connector-sg-id":
+      handles.vpcConnectorSecurityGroup.securityGroupId,
+  });
+  // SSM rejects empty values.
+  if (handles.natGatewayIds.length > 0) {
+    publish(scope, naming, {
+      "network/nat-gateway-ids": Fn.join(",", handles.natGatewayIds),
+    });
+  }
+}
+
+/**
+ * Resolves NetworkStack handles inside `scope` from the parameters written by
+ * publishNetworkHandles. The VPC itself is found with a context lookup by
+ * name, so a consuming stack that uses it needs an explicit account and
+ * region.
+ */
+export function lookupNetworkHandles(
+  scope: Construct,
+  naming: Naming,
+  options: NetworkLookupOptions = {}
+): NetworkHandles {
+  const { natGatewaysCount = 0 } = options;
+  const handles: NetworkHandles = lazy({
+    vpc: () =>
+      ec2.Vpc.fromLookup(scope, "VPCHandle", {
+        vpcName: naming.name("vpc"),
+      }),
+    vpcConnector: () =>
+      apprunner.VpcConnector.fromVpcConnectorAttributes(
+        scope,
+        "VPCConnectorHandle",
+        {
+          vpcConnectorArn: read(scope, naming, "network/vpc-connector-arn"),
+          vpcConnectorName: read(scope, naming, "network/vpc-connector-name"),
+          vpcConnectorRevision: Token.asNumber(
+            read(scope, naming, "network/vpc-connector-revision")
+          ),
+          securityGroups: [handles.vpcConnectorSecurityGroup],
+        }
+      ),
+    vpcConnectorSecurityGroup: () =>
+      ec2.SecurityGroup.fromSecurityGroupId(
+        scope,
+        "VPCConnectorSecurityGroupHandle",
+        read(scope, naming, "network/vpc-connector-sg-id")
+      ),
+    natGatewayIds: () =>
+      natGatewaysCount > 0
+        ? Fn.split(
+            ",",
+            read(scope, naming, "network/nat-gateway-ids"),
+            natGatewaysCount
+          )
+        : [],
+  });
+  return handles;
+}
+
+export function publishDBHandles(
+  scope: Construct,
+  naming: Naming,
+  handles: DBHandles
+): void {
+  publish(scope, naming, {
+    "db/cluster-identifier": handles.cluster.clusterIdentifier,
+    "db/secret-arn": handles.secret.secretArn,
+    "db/sg-id": handles.securityGroup.securityGroupId,
+  });
+  if (handles.proxy) {
+    publish(scope, naming, {
+      "db/proxy-arn": handles.proxy.proxy.dbProxyArn,
+      "db/proxy-name": handles.proxy.proxy.dbProxyName,
+    });
+  }
+}
+
+export function lookupDBHandles(
+  scope: Construct,
+  naming: Naming,
+  options: DBLookupOptions = {}
+): DBHandles {
+  const { proxy, secretRotated = false } = options;
+  const handles: DBHandles = lazy({
+    cluster: () =>
+      rds.DatabaseCluster.fromDatabaseClusterAttributes(
+        scope,
+        "DatabaseClusterHandle",
+        {
+          clusterIdentifier: read(scope, naming, "db/cluster-identifier"),
+          clusterEndpointAddress: read(scope, naming, "db/host"),
+          readerEndpointAddress: read(scope, naming, "db/read-host"),
+          port: Token.asNumber(read(scope, naming, "db/port")),
+          securityGroups: [handles.securityGroup],
+        }
+      ),
+    securityGroup: () =>
+      ec2.SecurityGroup.fromSecurityGroupId(
+        scope,
+        "DBSecurityGroupHandle",
+        read(scope, naming, "db/sg-id")
+      ),
+    secret: () =>
+      sm.Secret.fromSecretCompleteArn(
+        scope,
+        "DBSecretHandle",
+        read(scope, naming, "db/secret-arn")
+      ),
+    secretRotated: () => secretRotated,
+    connectionParameters: () =>
+      lazy({
+        host: () => importParameter(scope, naming, "db/host"),
+        readHost: () => importParameter(scope, naming, "db/read-host"),
+        port: () => importParameter(scope, naming, "db/port"),
+        database: () => importParameter(scope, naming, "db/dbname"),
+      }),
+    proxy: () =>
+      proxy && {
+        proxy: rds.DatabaseProxy.fromDatabaseProxyAttributes(
+          scope,
+          "DatabaseProxyHandle",
+          {
+            dbProxyArn: read(scope, naming, "db/proxy-arn"),
+            dbProxyName: read(scope, naming, "db/proxy-name"),
+            endpoint: read(scope, naming, "db/host"),
+            securityGroups: [],
+          }
+        ),
+        iamUsers: proxy.iamUsers,
+      },
+  });
+  return handles;
+}
+
+export function publishAPIHandles(
+  scope: Construct,
+  naming: Naming,
+  handles: APIHandles
+): void {
+  publish(scope, naming, {
+    "api/service-name": handles.serviceName,
+    "api/service-id": handles.serviceId,
+    "api/web-acl-name": handles.webAclName,
+    "api/service-url": handles.serviceUrl,
+    "api/url": handles.url,
+  });
+  if (handles.originVerification) {
+    publish(scope, naming, {
+      "api/origin-verification-secret-arn":
+        handles.originVerification.secret.secretArn,
+    });
+  }
+}
+
+export function lookupAPIHandles(
+  scope: Construct,
+  naming: Naming,
+  options: APILookupOptions = {}
+): APIHandles {
+  const { originVerification } = options;
+  return lazy<APIHandles>({
+    serviceName: () => read(scope, naming, "api/service-name"),
+    serviceId: () => read(scope, naming, "api/service-id"),
+    webAclName: () => read(scope, naming, "api/web-acl-name"),
+    serviceUrl: () => read(scope, naming, "api/service-url"),
+    url: () => read(scope, naming, "api/url"),
+    originVerification: () =>
+      originVerification && {
+        headerName: originVerification.headerName,
+        secret: sm.Secret.fromSecretCompleteArn(
+          scope,
+          "OriginVerificationSecretHandle",
+          read(scope, naming, "api/origin-verification-secret-arn")
+        ),
+      },
+  });
+}
+
+export function publishFrontHandles(
+  scope: Construct,
+  naming: Naming,
+  handles: FrontHandles
+): void {
+  publish(scope, naming, {
+    "front/distribution-id": handles.distribution.distributionId,
+    "front/distribution-domain-name":
+      handles.distribution.distributionDomainName,
+  });
+}
+
+export function lookupFrontHandles(
+  scope: Construct,
+  naming: Naming
+): FrontHandles {
+  return lazy<FrontHandles>({
+    distribution: () =>
+      cloudfront.Distribution.fromDistributionAttributes(
+        scope,
+        "FrontDistributionHandle",
+        {
+          distributionId: read(scope, naming, "front/distribution-id"),
+          domainName: read(scope, naming, "front/distribution-domain-name"),
+        }
+      ),
+  });
+}
+
+export function publishFrontPreviewHandles(
+  scope: Construct,
+  naming: Naming,
+  handles: FrontPreviewHandles
+): void {
+  publish(scope, naming, {
+    "front-preview/bucket-name": handles.bucket.bucketName,
+    "front-preview/distribution-id": handles.distribution.distributionId,
+    "front-preview/distribution-domain-name":
+      handles.distribution.distributionDomainName,
+  });
+}
+
+export function lookupFrontPreviewHandles(
+  scope: Construct,
+  naming: Naming
+): FrontPreviewHandles {
+  return lazy<FrontPreviewHandles>({
+    bucket: () =>
+      s3.Bucket.fromBucketName(
+        scope,
+        "FrontPreviewBucketHandle",
+        read(scope, naming, "front-preview/bucket-name")
+      ),
+    distribution: () =>
+      cloudfront.Distribution.fromDistributionAttributes(
+        scope,
+        "FrontPreviewDistributionHandle",
+        {
+          distributionId: read(scope, naming, "front-preview/distribution-id"),
+          domainName: read(
+            scope,
+            naming,
+            "front-preview/distribution-domain-name"
+          ),
+        }
+      ),
+  });
+}
@@ -0,0 +1,94 @@
+import { StackProps as CdkStackProps, Stack } from "aws-cdk-lib";
+import type { Construct } from "constructs";
+import * as acm from "aws-cdk-lib/aws-certificatemanager";
+import * as route53 from "aws-cdk-lib/aws-route53";
+import type { DataProtection } from "./data-protection";
+import type { FrontProps } from "./front-stack";
+import type { Naming } from "./naming";
+import { FrontPreviewStack } from "./front-preview-stack";
+import { WebACL } from "./waf";
+
+interface StackProps extends CdkStackProps {
+  readonly frontProps: FrontProps;
+  readonly dataProtection: DataProtection;
+  readonly naming: Naming;
+}
+
+/**
+ * Resources CloudFront only accepts from us-east-1. FrontStack references
+ * them through cross-region references.
+ */
+export class FrontEdgeStack extends Stack {
+  readonly webAclArn?: string;
+  readonly webAclName?: string;
+  readonly certificate?: acm.ICertificate;
+  /**
+   * Wildcard certificate for the hosts of FrontPreviewStack.
+   */
+  readonly previewCertificate?: acm.ICertificate;
+
+  private readonly frontProps: FrontProps;
+  private readonly dataProtection: DataProtection;
+  private readonly naming: Naming;
+  private zone?: route53.IHostedZone;
+
+  constructor(scope: Construct, id: string, props: StackProps) {
+    super(scope, id, props);
+
+    this.frontProps = props.frontProps;
+    this.dataProtection = props.dataProtection;
+    this.naming = props.naming;
+
+    if (this.frontProps.waf) {
+      const webAcl = this.newWAF(this.frontProps.waf);
+      this.webAclArn = webAcl.webAcl.attrArn;
+      this.webAclName = webAcl.name;
+    }
+    if (this.frontProps.domain?.certificate.mode === "create") {
+      this.certificate = this.newCertificate(this.frontProps.domain);
+    }
+    if (this.frontProps.preview) {
+      this.previewCertificate = this.newPreviewCertificate();
+    }
+  }
+
+  private newCertificate(
+    domain: NonNullable<FrontProps["domain"]>
+  ): acm.ICertificate {
+    return new acm.Certificate(this, "FrontCertificate", {
+      domainName: this.naming.domainName(
+        domain.subdomain,
+        domain.hostedZoneName
+      ),
+      validation: acm.CertificateValidation.fromDns(
+        this.hostedZone(domain.hostedZoneName)
+      ),
+    });
+  }
+
+  private newPreviewCertificate(): acm.ICertificate {
+    const domain = FrontPreviewStack.domain(this.frontProps, this.naming);
+    return new acm.Certificate(this, "FrontPreviewCertificate", {
+      domainName: `*.${domain.name}`,
+      validation: acm.CertificateValidation.fromDns(
+        this.hostedZone(domain.hostedZoneName)
+      ),
+    });
+  }
+
+  private hostedZone(domainName: string): route53.IHostedZone {
+    return (this.zone ??= route53.HostedZone.fromLookup(this, "HostedZone", {
+      domainName,
+    }));
+  }
+
+  private newWAF(wafProps: NonNullable<FrontProps["waf"]>): WebACL {
+    return new WebACL(this, "WebACL", {
+      scope: "CLOUDFRONT",
+      name: "front-waf",
+      naming: this.naming,
+      wafProps,
+      dataProtection: this.dataProtection,
+    });
+  }
+}
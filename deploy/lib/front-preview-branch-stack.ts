@@ -0,0 +1,91 @@
+import { StackProps as CdkStackProps, Stack } from "aws-cdk-lib";
+import type { Construct } from "constructs";
+import * as route53 from "aws-cdk-lib/aws-route53";
+import * as targets from "aws-cdk-lib/aws-route53-targets";
+import * as s3deploy from "aws-cdk-lib/aws-s3-deployment";
+import type { Naming } from "./naming";
+import {
+  APIHandles,
+  APILookupOptions,
+  FrontPreviewHandles,
+  lookupAPIHandles,
+  lookupFrontPreviewHandles,
+} from "./discovery";
+import { FRONT_DIST_PATH, FrontProps, runtimeConfig } from "./front-stack";
+import { FrontPreviewStack } from "./front-preview-stack";
+
+interface StackProps extends CdkStackProps {
+  /**
+   * Branch name reduced to a DNS label, e.g. `feature-login`.
+   */
+  readonly branch: string;
+  readonly commitHash: string;
+  readonly frontProps: FrontProps;
+  readonly naming: Naming;
+  /**
+   * Handles from FrontPreviewStack and APIStack. When omitted they are read
+   * from the SSM parameters those stacks publish in `ssm` discovery mode.
+   */
+  readonly preview?: FrontPreviewHandles;
+  readonly api?: APIHandles;
+  readonly apiLookup?: APILookupOptions;
+}
+
+/**
+ * One branch build served at `<branch>.<preview domain>`. Destroying the
+ * stack deletes the branch's objects and DNS record.
+ */
+export class FrontPreviewBranchStack extends Stack {
+  private readonly branch: string;
+  private readonly commitHash: string;
+  private readonly frontProps: FrontProps;
+  private readonly naming: Naming;
+  private readonly preview: FrontPreviewHandles;
+  private readonly api: APIHandles;
+
+  constructor(scope: Construct, id: string, props: StackProps) {
+    super(scope, id, props);
+
+    this.branch = props.branch;
+    this.commitHash = props.commitHash;
+    this.frontProps = props.frontProps;
+    this.naming = props.naming;
+    this.preview =
+      props.preview ?? lookupFrontPreviewHandles(this, this.naming);
+    this.api =
+      props.api ?? lookupAPIHandles(this, this.naming, props.apiLookup);
+
+    this.s3Deploy();
+    this.newRecord();
+  }
+
+  private s3Deploy(): void {
+    new s3deploy.BucketDeployment(this, "FrontPreviewDeployment", {
+      sources: [
+        s3deploy.Source.asset(FRONT_DIST_PATH),
+        runtimeConfig(this, {
+          apiOrigin: this.frontProps.apiOrigin,
+          api: this.api,
+          naming: this.naming,
+          commitHash: this.commitHash,
+        }),
+      ],
+      destinationBucket: this.preview.bucket,
+      destinationKeyPrefix: `${this.branch}/`,
+      retainOnDelete: false,
+    });
+  }
+
+  private newRecord(): void {
+    const domain = FrontPreviewStack.domain(this.frontProps, this.naming);
+    new route53.ARecord(this, "FrontPreviewARecord", {
+      zone: route53.HostedZone.fromLookup(this, "HostedZone", {
+        domainName: domain.hostedZoneName,
+      }),
+      recordName: `${this.branch}.${domain.name}.`,
+      target: route53.RecordTarget.fromAlias(
+        new targets.CloudFrontTarget(this.preview.distribution)
+      ),
+    });
+  }
+}
@@ -0,0 +1,165 @@
+import { StackProps as CdkStackProps, Stack } from "aws-cdk-lib";
+import type { Construct } from "constructs";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import * as cloudfront from "aws-cdk-lib/aws-cloudfront";
+import * as origins from "aws-cdk-lib/aws-cloudfront-origins";
+import type * as acm from "aws-cdk-lib/aws-certificatemanager";
+import type { DataProtection } from "./data-protection";
+import type { Naming } from "./naming";
+import {
+  APIHandles,
+  APILookupOptions,
+  DiscoveryMode,
+  FrontPreviewHandles,
+  lookupAPIHandles,
+  publishFrontPreviewHandles,
+} from "./discovery";
+import { FrontProps, apiBehavior, useOriginAccessControl } from "./front-stack";
+
+interface StackProps extends CdkStackProps {
+  readonly frontProps: FrontProps;
+  readonly dataProtection: DataProtection;
+  readonly naming: Naming;
+  readonly discovery: DiscoveryMode;
+  /**
+   * Handles from APIStack. When omitted they are read from the SSM
+   * parameters APIStack publishes in `ssm` discovery mode.
+   */
+  readonly api?: APIHandles;
+  readonly apiLookup?: APILookupOptions;
+  /**
+   * Wildcard certificate created by FrontEdgeStack.
+   */
+  readonly certificate: acm.ICertificate;
+}
+
+/**
+ * Bucket and distribution shared by every front-end preview. Each branch is
+ * uploaded under its own key prefix by a FrontPreviewBranchStack, and a
+ * CloudFront Function maps `<branch>.<preview domain>` to that prefix.
+ */
+export class FrontPreviewStack extends Stack implements FrontPreviewHandles {
+  readonly bucket: s3.Bucket;
+  readonly distribution: cloudfront.Distribution;
+
+  private readonly frontProps: FrontProps;
+  private readonly dataProtection: DataProtection;
+  private readonly naming: Naming;
+  private readonly certificate: acm.ICertificate;
+  private readonly api?: APIHandles;
+
+  constructor(scope: Construct, id: string, props: StackProps) {
+    super(scope, id, props);
+
+    this.frontProps = props.frontProps;
+    this.dataProtection = props.dataProtection;
+    this.naming = props.naming;
+    this.certificate = props.certificate;
+    if (this.frontProps.apiOrigin) {
+      this.api =
+        props.api ?? lookupAPIHandles(this, this.naming, props.apiLookup);
+    }
+
+    this.bucket = this.newBucket();
+    this.distribution = this.newDistribution();
+
+    if (props.discovery === "ssm") {
+      publishFrontPreviewHandles(this, this.naming, this);
+    }
+  }
+
+  /**
+   * Parent of the branch hosts, e.g. `preview.example.com`, and its zone.
+   */
+  static domain(
+    frontProps: FrontProps,
+    naming: Naming
+  ): { readonly name: string; readonly hostedZoneName: string } {
+    const { domain, preview } = frontProps;
+    if (domain === undefined || preview === undefined) {
+      throw new Error("front.preview requires front.domain");
+    }
+    return {
+      name: naming.domainName(preview.subdomain, domain.hostedZoneName),
+      hostedZoneName: domain.hostedZoneName,
+    };
+  }
+
+  private newBucket(): s3.Bucket {
+    return new s3.Bucket(this, "FrontPreviewBucket", {
+      bucketName: this.naming.bucketName("front-preview", this.account),
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      enforceSSL: true,
+      removalPolicy: this.dataProtection.removalPolicy,
+      autoDeleteObjects: this.dataProtection.autoDelete,
+    });
+  }
+
+  /**
+   * Previews are rebuilt often and seldom visited, so nothing is cached and
+   * deploys need no invalidation.
+   */
+  private newDistribution(): cloudfront.Distribution {
+    const domain = FrontPreviewStack.domain(this.frontProps, this.naming);
+    const distribution = new cloudfront.Distribution(
+      this,
+      "FrontPreviewDistribution",
+      {
+        defaultBehavior: {
+          origin: new origins.S3Origin(this.bucket),
+          viewerProtocolPolicy:
+            cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+          allowedMethods: cloudfront.AllowedMethods.ALLOW_GET_HEAD,
+          cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
+          responseHeadersPolicy:
+            cloudfront.ResponseHeadersPolicy.SECURITY_HEADERS,
+          functionAssociations: [
+            {
+              function: this.newBranchRewriteFunction(),
+              eventType: cloudfront.FunctionEventType.VIEWER_REQUEST,
+            },
+          ],
+        },
+        additionalBehaviors: this.api && { "/api/*": apiBehavior(this.api) },
+        certificate: this.certificate,
+        domainNames: [`*.${domain.name}`],
+      }
+    );
+
+    useOriginAccessControl(
+      distribution,
+      this.bucket,
+      this.naming.name("preview-origin-access-control")
+    );
+
+    return distribution;
+  }
+
+  /**
+   * Prefixes the URI with the first label of the host, e.g.
+   * `feature-x.preview.example.com/about` -> `/feature-x/index.html`, and
+   * serves index.html for client-side routes.
+   */
+  private newBranchRewriteFunction(): cloudfront.Function {
+    return new cloudfront.Function(this, "BranchRewriteFunction", {
+      functionName: this.naming.name("front-preview-rewrite"),
+      code: cloudfront.FunctionCode.fromInline(
+        [
+          "function handler(event) {",
+          "  var request = event.request;",
+          "  var host = request.headers.host.value;",
+          '  var branch = host.substring(0, host.indexOf("."));',
+          "  var uri = request.uri;",
+          '  var segment = uri.substring(uri.lastIndexOf("/") + 1);',
+          '  if (segment.indexOf(".") === -1) {',
+          '    uri = "/index.html";',
+          "  }",
+          '  request.uri = "/" + branch + uri;',
+          "  return request;",
+          "}",
+        ].join("\n")
+      ),
+    });
+  }
+}
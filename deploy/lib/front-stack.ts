@@ -3,6 +3,10 @@ import {
   Stack,
   aws_cloudfront,
   Aws,
+  CfnJson,
+  Duration,
+  Lazy,
+  Token,
 } from "aws-cdk-lib";
 import { Construct } from "constructs";
 import * as path from "path";
@@ -12,141 +16,620 @@ import * as origins from "aws-cdk-lib/aws-cloudfront-origins";
 import * as acm from "aws-cdk-lib/aws-certificatemanager";
 import * as route53 from "aws-cdk-lib/aws-route53";
 import * as targets from "aws-cdk-lib/aws-route53-targets";
-import * as ssm from "aws-cdk-lib/aws-ssm";
 import * as iam from "aws-cdk-lib/aws-iam";
+import * as kms from "aws-cdk-lib/aws-kms";
 import * as s3deploy from "aws-cdk-lib/aws-s3-deployment";
+import * as cr from "aws-cdk-lib/custom-resources";
+import type { DataProtection } from "./data-protection";
+import type { Naming } from "./naming";
+import {
+  APIHandles,
+  APILookupOptions,
+  DiscoveryMode,
+  FrontHandles,
+  lookupAPIHandles,
+  publishFrontHandles,
+} from "./discovery";
+import type { WAFProps } from "./waf";
+import { suppressGuardrailOnSingletons } from "./guardrails";
+
+export type FrontProps = {
+  readonly domain?: {
+    /**
+     * Record created under `hostedZoneName`, e.g. `app` for
+     * `app.example.com`.
+     */
+    readonly subdomain: string;
+    readonly hostedZoneName: string;
+    /**
+     * An existing certificate in us-east-1, or one FrontEdgeStack creates
+     * and validates through DNS.
+     */
+    readonly certificate:
+      | { readonly mode: "existing"; readonly arn: string }
+      | { readonly mode: "create" };
+  };
+  /**
+   * Directory of `front/dist` holding content-hashed files, e.g. `assets`.
+   * They are cached for a year; everything else, including index.html, is
+   * revalidated on every request.
+   */
+  readonly assetsPath: string;
+  readonly responseHeaders: {
+    readonly contentSecurityPolicy?: string;
+    readonly strictTransportSecurity: {
+      readonly maxAgeSeconds: number;
+      readonly includeSubdomains: boolean;
+      readonly preload: boolean;
+    };
+    readonly permissionsPolicy?: string;
+  };
+  /**
+   * Routes `/api/*` to the App Runner service, so the SPA calls the API on
+   * its own origin.
+   */
+  readonly apiOrigin: boolean;
+  /**
+   * Serves branch builds at `<branch>.<subdomain>.<domain.hostedZoneName>`
+   * from FrontPreviewStack.
+   */
+  readonly preview?: {
+    readonly subdomain: string;
+  };
+  /**
+   * CLOUDFRONT-scope web ACL, created by FrontEdgeStack in us-east-1.
+   */
+  readonly waf?: WAFProps;
+  readonly buckets: {
+    readonly origin: {
+      /**
+       * `KMS` encrypts with a customer managed key FrontStack creates.
+       */
+      readonly encryption: OriginBucketEncryption;
+      /**
+       * Keeps the objects a deploy overwrites or prunes as noncurrent
+       * versions, so a bad deploy can be rolled back by restoring them.
+       */
+      readonly versioning?: {
+        readonly noncurrentVersionExpirationDays?: number;
+      };
+    };
+    /**
+     * Lifecycle of the CloudFront access logs.
+     */
+    readonly logs: {
+      readonly infrequentAccessAfterDays?: number;
+      readonly glacierAfterDays?: number;
+      readonly expirationDays?: number;
+    };
+  };
+};
+
+export type OriginBucketEncryption = "S3_MANAGED" | "KMS";
+
+export const FRONT_DIST_PATH = path.join(__dirname, "../../", "front", "dist");
+
+/**
+ * Serves `bucket` through `distribution` with an origin access control
+ * instead of the origin access identity S3Origin sets up. The bucket must be
+ * the distribution's first origin.
+ */
+export function useOriginAccessControl(
+  distribution: cloudfront.Distribution,
+  bucket: s3.IBucket,
+  name: string
+): void {
+  const scope = Stack.of(distribution);
+  const originAccessControl = new aws_cloudfront.CfnOriginAccessControl(
+    scope,
+    "OriginAccessControl",
+    {
+      originAccessControlConfig: {
+        name,
+        originAccessControlOriginType: "s3",
+        signingBehavior: "always",
+        signingProtocol: "sigv4",
+      },
+    }
+  );
 
-interface StackProps extends CdkStackProps {}
+  const cfnDistribution = distribution.node
+    .defaultChild as aws_cloudfront.CfnDistribution;
+  cfnDistribution.addPropertyOverride(
+    "DistributionConfig.Origins.0.S3OriginConfig.OriginAccessIdentity",
+    ""
+  );
+  cfnDistribution.addPropertyOverride(
+    "DistributionConfig.Origins.0.OriginAccessControlId",
+    originAccessControl.attrId
+  );
 
-export class FrontStack extends Stack {
+  bucket.addToResourcePolicy(
+    new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: ["s3:GetObject"],
+      principals: [new iam.ServicePrincipal("cloudfront.amazonaws.com")],
+      resources: [`${bucket.bucketArn}/*`],
+      conditions: {
+        StringEquals: {
+          "AWS:SourceArn": `arn:aws:cloudfront::${Aws.ACCOUNT_ID}:distribution/${distribution.distributionId}`,
+        },
+      },
+    })
+  );
+}
+
+/**
+ * Passes every method, header, cookie and query string through uncached.
+ * App Runner routes on its own host name, so the viewer's Host header is
+ * replaced.
+ */
+export function apiBehavior(api: APIHandles): cloudfront.BehaviorOptions {
+  const { originVerification } = api;
+  return {
+    origin: new origins.HttpOrigin(api.serviceUrl, {
+      protocolPolicy: cloudfront.OriginProtocolPolicy.HTTPS_ONLY,
+      customHeaders: originVerification && {
+        [originVerification.headerName]:
+          originVerification.secret.secretValue.unsafeUnwrap(),
+      },
+    }),
+    viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.HTTPS_ONLY,
+    allowedMethods: cloudfront.AllowedMethods.ALLOW_ALL,
+    cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
+    originRequestPolicy:
+      cloudfront.OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER,
+  };
+}
+
+/**
+ * `config.json` the SPA fetches at startup, so one build can be promoted
+ * between environments.
+ */
+export function runtimeConfig(
+  scope: Construct,
+  props: {
+    readonly apiOrigin: boolean;
+    readonly api: APIHandles;
+    readonly naming: Naming;
+    readonly commitHash: string;
+  }
+): s3deploy.ISource {
+  // Source.jsonData resolves tokens without turning references to APIStack
+  // into imports, so the URL is passed through a resource of this stack.
+  const apiUrl = props.apiOrigin
+    ? "/api"
+    : Token.asString(
+        new CfnJson(scope, "APIUrl", { value: props.api.url }).value
+      );
+  return s3deploy.Source.jsonData("config.json", {
+    apiUrl,
+    envType: props.naming.envType,
+    commitHash: props.commitHash,
+  });
+}
+
+interface StackProps extends CdkStackProps {
+  readonly commitHash: string;
+  readonly frontProps: FrontProps;
+  readonly dataProtection: DataProtection;
+  readonly naming: Naming;
+  readonly discovery: DiscoveryMode;
+  /**
+   * Handles from APIStack. When omitted they are read from the SSM
+   * parameters APIStack publishes in `ssm` discovery mode.
+   */
+  readonly api?: APIHandles;
+  readonly apiLookup?: APILookupOptions;
+  /**
+   * Web ACL and created certificate from FrontEdgeStack.
+   */
+  readonly webAclArn?: string;
+  readonly certificate?: acm.ICertificate;
+}
+
+export class FrontStack extends Stack implements FrontHandles {
+  readonly distribution: cloudfront.Distribution;
+
+  private readonly commitHash: string;
+  private readonly frontProps: FrontProps;
+  private readonly dataProtection: DataProtection;
+  private readonly naming: Naming;
+  private readonly webAclArn?: string;
+  private readonly certificate?: acm.ICertificate;
+  private readonly api: APIHandles;
   private readonly originBucket: s3.Bucket;
-  private readonly cloudFrontDistribution: cloudfront.Distribution;
 
   constructor(scope: Construct, id: string, props: StackProps) {
     super(scope, id, props);
 
+    this.commitHash = props.commitHash;
+    this.frontProps = props.frontProps;
+    this.dataProtection = props.dataProtection;
+    this.naming = props.naming;
+    this.webAclArn = props.webAclArn;
+    this.certificate = props.certificate;
+    this.api =
+      props.api ?? lookupAPIHandles(this, this.naming, props.apiLookup);
+
     this.originBucket = this.newOriginBucket();
-    this.cloudFrontDistribution = this.newCloudFrontDistribution();
+    this.distribution = this.newCloudFrontDistribution();
+    if (this.originBucket.encryptionKey instanceof kms.Key) {
+      this.allowDistributionToDecrypt(this.originBucket.encryptionKey);
+    }
     this.s3Deploy();
+
+    if (props.discovery === "ssm") {
+      publishFrontHandles(this, this.naming, this);
+    }
   }
 
   private newOriginBucket(): s3.Bucket {
+    const { encryption, versioning } = this.frontProps.buckets.origin;
+    const kmsEncrypted = encryption === "KMS";
+    const noncurrentVersionExpiration =
+      versioning?.noncurrentVersionExpirationDays;
     return new s3.Bucket(this, "OriginFrontBucket", {
-      bucketName: "front-hosting",
+      bucketName: this.naming.bucketName("front-hosting", this.account),
       blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      encryption: s3.BucketEncryption[encryption],
+      encryptionKey: kmsEncrypted
+        ? new kms.Key(this, "OriginFrontBucketKey", {
+            alias: this.naming.name("front-hosting"),
+            enableKeyRotation: true,
+            removalPolicy: this.dataProtection.removalPolicy,
+          })
+        : undefined,
+      bucketKeyEnabled: kmsEncrypted,
+      enforceSSL: true,
+      versioned: versioning !== undefined,
+      lifecycleRules:
+        noncurrentVersionExpiration === undefined
+          ? undefined
+          : [
+              {
+                noncurrentVersionExpiration: Duration.days(
+                  noncurrentVersionExpiration
+                ),
+              },
+            ],
+      removalPolicy: this.dataProtection.removalPolicy,
+      autoDeleteObjects: this.dataProtection.autoDelete,
     });
   }
 
+  /**
+   * Lets CloudFront decrypt the origin bucket's objects on behalf of this
+   * distribution only. The key policy can't name the distribution, which
+   * depends on the bucket and so on the key, so the key's policy is put again
+   * with that statement once the distribution exists.
+   */
+  private allowDistributionToDecrypt(key: kms.Key): void {
+    const statement = new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: ["kms:Decrypt"],
+      principals: [new iam.ServicePrincipal("cloudfront.amazonaws.com")],
+      resources: ["*"],
+      conditions: {
+        StringEquals: {
+          "AWS:SourceArn": `arn:aws:cloudfront::${Aws.ACCOUNT_ID}:distribution/${this.distribution.distributionId}`,
+        },
+      },
+    });
+    // The L2 key renders its policy document, grants included, into CfnKey.
+    const keyPolicy = (key.node.defaultChild as kms.CfnKey)
+      .keyPolicy as iam.PolicyDocument;
+    const policy = Lazy.any({
+      produce: () => {
+        const { Statement, ...document } = keyPolicy.toJSON();
+        return {
+          ...document,
+          Statement: [...Statement, statement.toStatementJson()],
+        };
+      },
+    });
+    const putKeyPolicy: cr.AwsSdkCall = {
+      service: "KMS",
+      action: "putKeyPolicy",
+      parameters: {
+        KeyId: key.keyId,
+        PolicyName: "default",
+        Policy: this.toJsonString(policy),
+      },
+      physicalResourceId: cr.PhysicalResourceId.of(key.keyId),
+    };
+    new cr.AwsCustomResource(this, "OriginFrontBucketKeyPolicy", {
+      onCreate: putKeyPolicy,
+      onUpdate: putKeyPolicy,
+      policy: cr.AwsCustomResourcePolicy.fromSdkCalls({
+        resources: [key.keyArn],
+      }),
+      installLatestAwsSdk: false,
+    });
+  }
+
+  private logsLifecycleRules(): s3.LifecycleRule[] | undefined {
+    const { infrequentAccessAfterDays, glacierAfterDays, expirationDays } =
+      this.frontProps.buckets.logs;
+    const transitions: s3.Transition[] = [];
+    if (infrequentAccessAfterDays !== undefined) {
+      transitions.push({
+        storageClass: s3.StorageClass.INFREQUENT_ACCESS,
+        transitionAfter: Duration.days(infrequentAccessAfterDays),
+      });
+    }
+    if (glacierAfterDays !== undefined) {
+      transitions.push({
+        storageClass: s3.StorageClass.GLACIER,
+        transitionAfter: Duration.days(glacierAfterDays),
+      });
+    }
+    if (transitions.length === 0 && expirationDays === undefined) {
+      return undefined;
+    }
+    return [
+      {
+        transitions,
+        expiration:
+          expirationDays === undefined
+            ? undefined
+            : Duration.days(expirationDays),
+      },
+    ];
+  }
+
   private newCloudFrontDistribution(): cloudfront.Distribution {
+    // Log delivery would need its own grant on a KMS key, so the logs keep
+    // S3-managed encryption.
     const cloudfrontLogsBucket = new s3.Bucket(this, "CloudFrontLogsBucket", {
-      bucketName: "cloudfront-logs",
+      bucketName: this.naming.bucketName("cloudfront-logs", this.account),
       blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      enforceSSL: true,
       objectOwnership: s3.ObjectOwnership.BUCKET_OWNER_PREFERRED,
+      lifecycleRules: this.logsLifecycleRules(),
+      removalPolicy: this.dataProtection.removalPolicy,
+      autoDeleteObjects: this.dataProtection.autoDelete,
     });
 
-    const originAccessControl = new aws_cloudfront.CfnOriginAccessControl(
-      this,
-      "OriginAccessControl",
-      {
-        originAccessControlConfig: {
-          name: "origin-access-control",
-          originAccessControlOriginType: "s3",
-          signingBehavior: "always",
-          signingProtocol: "sigv4",
-        },
-      }
-    );
-
-    const subDomain = "app";
-    const frontDomain = `${subDomain}.example.com`;
+    const { domain } = this.frontProps;
+    const domainName =
+      domain && this.naming.domainName(domain.subdomain, domain.hostedZoneName);
+    const origin = new origins.S3Origin(this.originBucket);
+    const responseHeadersPolicy = this.newResponseHeadersPolicy();
     const cf = new cloudfront.Distribution(this, "CloudFrontDistribution", {
       defaultBehavior: {
-        origin: new origins.S3Origin(this.originBucket),
+        origin,
         viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
-        originRequestPolicy: cloudfront.OriginRequestPolicy.CORS_S3_ORIGIN,
         allowedMethods: cloudfront.AllowedMethods.ALLOW_GET_HEAD_OPTIONS,
-        responseHeadersPolicy:
-          cloudfront.ResponseHeadersPolicy.SECURITY_HEADERS,
+        cachePolicy: new cloudfront.CachePolicy(this, "DocumentCachePolicy", {
+          cachePolicyName: this.naming.name("front-document-cache"),
+          // Honors `Cache-Control: no-cache` from s3Deploy.
+          minTtl: Duration.seconds(0),
+          defaultTtl: Duration.seconds(0),
+          maxTtl: Duration.days(1),
+          enableAcceptEncodingGzip: true,
+          enableAcceptEncodingBrotli: true,
+        }),
+        responseHeadersPolicy,
+        functionAssociations: this.frontProps.apiOrigin
+          ? [
+              {
+                function: this.newSPARewriteFunction(),
+                eventType: cloudfront.FunctionEventType.VIEWER_REQUEST,
+              },
+            ]
+          : undefined,
       },
-      defaultRootObject: "index.html",
-      certificate: acm.Certificate.fromCertificateArn(
-        this,
-        "ACMCertificate",
-        `arn:aws:acm:${Aws.REGION}:${Aws.ACCOUNT_ID}:certificate/path-to-certificate`
-      ),
-      domainNames: [frontDomain],
-      errorResponses: [
-        {
-          httpStatus: 403,
-          responseHttpStatus: 200,
-          responsePagePath: "/index.html",
-        },
-        {
-          httpStatus: 404,
-          responseHttpStatus: 200,
-          responsePagePath: "/index.html",
+      additionalBehaviors: {
+        [`/${this.frontProps.assetsPath}/*`]: {
+          origin,
+          viewerProtocolPolicy:
+            cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+          allowedMethods: cloudfront.AllowedMethods.ALLOW_GET_HEAD,
+          cachePolicy: new cloudfront.CachePolicy(this, "AssetsCachePolicy", {
+            cachePolicyName: this.naming.name("front-assets-cache"),
+            minTtl: Duration.days(365),
+            defaultTtl: Duration.days(365),
+            maxTtl: Duration.days(365),
+            enableAcceptEncodingGzip: true,
+            enableAcceptEncodingBrotli: true,
+          }),
+          responseHeadersPolicy,
         },
-      ],
+        ...(this.frontProps.apiOrigin && {
+          "/api/*": apiBehavior(this.api),
+        }),
+      },
+      defaultRootObject: "index.html",
+      certificate: domain && this.getCertificate(domain),
+      domainNames: domainName ? [domainName] : undefined,
+      // Error responses apply to every behavior, so with the API behind the
+      // distribution client-side routes are rewritten by a function instead.
+      errorResponses: this.frontProps.apiOrigin
+        ? undefined
+        : [
+            {
+              httpStatus: 403,
+              responseHttpStatus: 200,
+              responsePagePath: "/index.html",
+            },
+            {
+              httpStatus: 404,
+              responseHttpStatus: 200,
+              responsePagePath: "/index.html",
+            },
+          ],
       enableLogging: true,
       logBucket: cloudfrontLogsBucket,
+      webAclId: this.webAclArn,
     });
 
-    const cfnDistribution = cf.node
-      .defaultChild as aws_cloudfront.CfnDistribution;
-    cfnDistribution.addPropertyOverride(
-      "DistributionConfig.Origins.0.S3OriginConfig.OriginAccessIdentity",
-      ""
-    );
-    cfnDistribution.addPropertyOverride(
-      "DistributionConfig.Origins.0.OriginAccessControlId",
-      originAccessControl.attrId
+    useOriginAccessControl(
+      cf,
+      this.originBucket,
+      this.naming.name("origin-access-control")
     );
 
-    const hostedZoneId = ssm.StringParameter.fromStringParameterName(
-      this,
-      "HostedZoneId",
-      `/front/hosted-zone-id`
-    ).stringValue;
-    const hostedZoneName = ssm.StringParameter.fromStringParameterName(
-      this,
-      "HostedZoneName",
-      `/front/hosted-zone-name`
-    ).stringValue;
-
-    new route53.ARecord(this, "FrontARecord", {
-      zone: route53.HostedZone.fromHostedZoneAttributes(this, "HostedZone", {
-        hostedZoneId,
-        zoneName: hostedZoneName,
-      }),
-      recordName: subDomain,
-      target: route53.RecordTarget.fromAlias(new targets.CloudFrontTarget(cf)),
-    });
+    if (domain && domainName) {
+      new route53.ARecord(this, "FrontARecord", {
+        zone: route53.HostedZone.fromLookup(this, "HostedZone", {
+          domainName: domain.hostedZoneName,
+        }),
+        recordName: `${domainName}.`,
+        target: route53.RecordTarget.fromAlias(
+          new targets.CloudFrontTarget(cf)
+        ),
+      });
+    }
 
-    this.originBucket.addToResourcePolicy(
-      new iam.PolicyStatement({
-        effect: iam.Effect.ALLOW,
-        actions: ["s3:GetObject"],
-        principals: [new iam.ServicePrincipal("cloudfront.amazonaws.com")],
-        resources: [`${this.originBucket.bucketArn}/*`],
-        conditions: {
-          StringEquals: {
-            "AWS:SourceArn": `arn:aws:cloudfront::${Aws.ACCOUNT_ID}:distribution/${cf.distributionId}`,
-          },
+    return cf;
+  }
+
+  private newResponseHeadersPolicy(): cloudfront.ResponseHeadersPolicy {
+    const {
+      contentSecurityPolicy,
+      strictTransportSecurity,
+      permissionsPolicy,
+    } = this.frontProps.responseHeaders;
+    return new cloudfront.ResponseHeadersPolicy(this, "ResponseHeadersPolicy", {
+      responseHeadersPolicyName: this.naming.name("front-response-headers"),
+      securityHeadersBehavior: {
+        contentSecurityPolicy: contentSecurityPolicy
+          ? { contentSecurityPolicy, override: true }
+          : undefined,
+        strictTransportSecurity: {
+          accessControlMaxAge: Duration.seconds(
+            strictTransportSecurity.maxAgeSeconds
+          ),
+          includeSubdomains: strictTransportSecurity.includeSubdomains,
+          preload: strictTransportSecurity.preload,
+          override: true,
         },
-      })
-    );
+        contentTypeOptions: { override: true },
+        frameOptions: {
+          frameOption: cloudfront.HeadersFrameOption.SAMEORIGIN,
+          override: true,
+        },
+        referrerPolicy: {
+          referrerPolicy:
+            cloudfront.HeadersReferrerPolicy.STRICT_ORIGIN_WHEN_CROSS_ORIGIN,
+          override: true,
+        },
+        xssProtection: { protection: true, modeBlock: true, override: true },
+      },
+      customHeadersBehavior: permissionsPolicy
+        ? {
+            customHeaders: [
+              {
+                header: "Permissions-Policy",
+                value: permissionsPolicy,
+                override: true,
+              },
+            ],
+          }
+        : undefined,
+    });
+  }
 
-    return cf;
+  /**
+   * Serves index.html for paths whose last segment has no file extension, so
+   * client-side routes resolve without masking errors from the API.
+   */
+  private newSPARewriteFunction(): cloudfront.Function {
+    return new cloudfront.Function(this, "SPARewriteFunction", {
+      functionName: this.naming.name("front-spa-rewrite"),
+      code: cloudfront.FunctionCode.fromInline(
+        [
+          "function handler(event) {",
+          "  var request = event.request;",
+          '  var segment = request.uri.substring(request.uri.lastIndexOf("/") + 1);',
+          '  if (segment.indexOf(".") === -1) {',
+          '    request.uri = "/index.html";',
+          "  }",
+          "  return request;",
+          "}",
+        ].join("\n")
+      ),
+    });
+  }
+
+  private getCertificate(
+    domain: NonNullable<FrontProps["domain"]>
+  ): acm.ICertificate {
+    if (domain.certificate.mode === "existing") {
+      return acm.Certificate.fromCertificateArn(
+        this,
+        "ACMCertificate",
+        domain.certificate.arn
+      );
+    }
+    if (this.certificate === undefined) {
+      throw new Error("FrontEdgeStack must create the front certificate");
+    }
+    return this.certificate;
   }
 
+  /**
+   * Uploads hashed assets before the documents referencing them. Neither
+   * deployment prunes, so clients holding an older index.html can still load
+   * the assets it references.
+   */
   private s3Deploy(): void {
-    new s3deploy.BucketDeployment(this, "FrontBucketDeployment", {
-      sources: [
-        s3deploy.Source.asset(path.join(__dirname, "../../", "front", "dist")),
-      ],
-      destinationBucket: this.originBucket,
-      distribution: this.cloudFrontDistribution,
-      distributionPaths: ["/*"],
-    });
+    const dist = FRONT_DIST_PATH;
+    const { assetsPath } = this.frontProps;
+
+    const assetsDeployment = new s3deploy.BucketDeployment(
+      this,
+      "FrontAssetsDeployment",
+      {
+        sources: [
+          s3deploy.Source.asset(dist, {
+            exclude: ["*", `!${assetsPath}`, `!${assetsPath}/**`],
+          }),
+        ],
+        destinationBucket: this.originBucket,
+        // Clients still running the previous build load its assets. They
+        // can't expire by age either: every deploy uploads the current ones
+        // anew, so an expiration would delete them when no deploy happened
+        // within it.
+        prune: false,
+        cacheControl: [
+          s3deploy.CacheControl.setPublic(),
+          s3deploy.CacheControl.maxAge(Duration.days(365)),
+          s3deploy.CacheControl.immutable(),
+        ],
+      }
+    );
+
+    const documentDeployment = new s3deploy.BucketDeployment(
+      this,
+      "FrontBucketDeployment",
+      {
+        sources: [
+          s3deploy.Source.asset(dist, { exclude: [assetsPath] }),
+          runtimeConfig(this, {
+            apiOrigin: this.frontProps.apiOrigin,
+            api: this.api,
+            naming: this.naming,
+            commitHash: this.commitHash,
+          }),
+        ],
+        destinationBucket: this.originBucket,
+        // Removes documents a build no longer has; excluding the assets keeps
+        // them out of the prune too.
+        exclude: [`${assetsPath}/*`],
+        cacheControl: [s3deploy.CacheControl.noCache()],
+        distribution: this.distribution,
+        distributionPaths: ["/index.html", "/config.json"],
+      }
+    );
+    documentDeployment.node.addDependency(assetsDeployment);
+    suppressGuardrailOnSingletons(
+      this,
+      "Custom::CDKBucketDeployment",
+      "iam-no-wildcard-resource",
+      "BucketDeployment grants its handler cloudfront:CreateInvalidation on every distribution."
+    );
   }
 }
@@ -0,0 +1,219 @@
+import { Annotations, IAspect, Stack } from "aws-cdk-lib";
+import type { IConstruct } from "constructs";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as rds from "aws-cdk-lib/aws-rds";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import { missingTags } from "./tagging";
+
+/**
+ * `error` fails `cdk synth` and `cdk deploy` on a violation, `warn` only
+ * reports it.
+ */
+export type GuardrailMode = "error" | "warn";
+
+export type GuardrailRule =
+  | "no-public-ssh"
+  | "s3-encryption"
+  | "s3-enforce-ssl"
+  | "rds-deletion-protection"
+  | "iam-no-wildcard-resource"
+  | "required-tags";
+
+const SUPPRESSION_METADATA = "guardrails:suppression";
+
+type Suppression = {
+  readonly rule: GuardrailRule;
+  readonly justification: string;
+};
+
+/**
+ * Exempts `scope` and every construct below it from `rule`. The justification
+ * is recorded in the cloud assembly next to the construct.
+ */
+export function suppressGuardrail(
+  scope: IConstruct,
+  rule: GuardrailRule,
+  justification: string
+): void {
+  if (justification.trim().length === 0) {
+    throw new Error(
+      `Suppressing ${rule} on ${scope.node.path} requires a justification`
+    );
+  }
+  const suppression: Suppression = { rule, justification };
+  scope.node.addMetadata(SUPPRESSION_METADATA, suppression);
+}
+
+/**
+ * Suppresses `rule` on the handlers of singleton custom resources such as
+ * BucketDeployment's, which live at the root of the stack rather than under
+ * the construct that uses them.
+ */
+export function suppressGuardrailOnSingletons(
+  stack: Stack,
+  idPrefix: string,
+  rule: GuardrailRule,
+  justification: string
+): void {
+  for (const child of stack.node.children) {
+    if (child.node.id.startsWith(idPrefix)) {
+      suppressGuardrail(child, rule, justification);
+    }
+  }
+}
+
+function isSuppressed(node: IConstruct, rule: GuardrailRule): boolean {
+  return node.node.scopes.some((scope) =>
+    scope.node.metadata.some(
+      ({ type, data }) =>
+        type === SUPPRESSION_METADATA && (data as Suppression).rule === rule
+    )
+  );
+}
+
+type PolicyStatement = {
+  readonly Effect?: string;
+  readonly Resource?: unknown;
+  readonly Condition?: Record<string, Record<string, unknown>>;
+};
+
+function statements(node: IConstruct, document: unknown): PolicyStatement[] {
+  const resolved = Stack.of(node).resolve(document) as
+    | { Statement?: PolicyStatement[] }
+    | undefined;
+  return resolved?.Statement ?? [];
+}
+
+function isPublicSSH(
+  node: IConstruct,
+  rule: {
+    cidrIp?: string;
+    cidrIpv6?: string;
+    ipProtocol: string;
+    fromPort?: number;
+    toPort?: number;
+  }
+): boolean {
+  const { cidrIp, cidrIpv6, ipProtocol, fromPort, toPort } = Stack.of(
+    node
+  ).resolve(rule) as typeof rule;
+  const open = cidrIp === "0.0.0.0/0" || cidrIpv6 === "::/0";
+  const ssh =
+    ipProtocol === "-1" ||
+    (ipProtocol === "tcp" &&
+      (fromPort === undefined || fromPort <= 22) &&
+      (toPort === undefined || toPort >= 22));
+  return open && ssh;
+}
+
+/**
+ * Each rule returns a violation message for the constructs it applies to.
+ */
+const RULES: Record<GuardrailRule, (node: IConstruct) => string | undefined> = {
+  "no-public-ssh": (node) => {
+    const ingress =
+      node instanceof ec2.CfnSecurityGroup
+        ? (Stack.of(node).resolve(node.securityGroupIngress) as
+            | ec2.CfnSecurityGroup.IngressProperty[]
+            | undefined) ?? []
+        : node instanceof ec2.CfnSecurityGroupIngress
+        ? [
+            {
+              cidrIp: node.cidrIp,
+              cidrIpv6: node.cidrIpv6,
+              ipProtocol: node.ipProtocol,
+              fromPort: node.fromPort,
+              toPort: node.toPort,
+            },
+          ]
+        : [];
+    return ingress.some((rule) => isPublicSSH(node, rule))
+      ? "Security groups must not open SSH to the internet; use Session Manager"
+      : undefined;
+  },
+
+  "s3-encryption": (node) =>
+    node instanceof s3.CfnBucket && node.bucketEncryption === undefined
+      ? "Buckets must set default encryption"
+      : undefined,
+
+  "s3-enforce-ssl": (node) => {
+    if (!(node instanceof s3.Bucket)) {
+      return undefined;
+    }
+    const enforced = statements(node, node.policy?.document).some(
+      ({ Effect, Condition }) =>
+        Effect === "Deny" &&
+        Condition?.Bool?.["aws:SecureTransport"] === "false"
+    );
+    return enforced
+      ? undefined
+      : "Buckets must deny requests without TLS (enforceSSL)";
+  },
+
+  "rds-deletion-protection": (node) => {
+    const unprotected =
+      (node instanceof rds.CfnDBCluster ||
+        (node instanceof rds.CfnDBInstance &&
+          node.dbClusterIdentifier === undefined)) &&
+      node.deletionProtection !== true;
+    return unprotected ? "Databases must enable deletionProtection" : undefined;
+  },
+
+  "iam-no-wildcard-resource": (node) => {
+    const documents =
+      node instanceof iam.CfnPolicy || node instanceof iam.CfnManagedPolicy
+        ? [node.policyDocument]
+        : node instanceof iam.CfnRole
+        ? (
+            (Stack.of(node).resolve(node.policies) as
+              | iam.CfnRole.PolicyProperty[]
+              | undefined) ?? []
+          ).map(({ policyDocument }) => policyDocument)
+        : [];
+    const wildcard = documents
+      .flatMap((document) => statements(node, document))
+      .some(
+        ({ Effect, Resource }) =>
+          Effect === "Allow" &&
+          [Resource].flat().some((resource) => resource === "*")
+      );
+    return wildcard
+      ? 'IAM policies must not allow actions on every resource ("*")'
+      : undefined;
+  },
+
+  "required-tags": (node) => {
+    const missing = missingTags(node);
+    return missing.length > 0
+      ? `Resources must be tagged with ${missing.join(", ")}`
+      : undefined;
+  },
+};
+
+/**
+ * Checks every construct of the app against RULES. Apply it to the app with
+ * `Aspects.of(app).add(new Guardrails(mode))`.
+ */
+export class Guardrails implements IAspect {
+  constructor(private readonly mode: GuardrailMode) {}
+
+  visit(node: IConstruct): void {
+    for (const [rule, check] of Object.entries(RULES) as [
+      GuardrailRule,
+      (node: IConstruct) => string | undefined
+    ][]) {
+      const message = check(node);
+      if (message === undefined || isSuppressed(node, rule)) {
+        continue;
+      }
+      const text = `[${rule}] ${message}. Fix it or call suppressGuardrail() with a justification.`;
+      if (this.mode === "error") {
+        Annotations.of(node).addError(text);
+      } else {
+        Annotations.of(node).addWarning(text);
+      }
+    }
+  }
+}
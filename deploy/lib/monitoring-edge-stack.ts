@@ -0,0 +1,66 @@
+import { StackProps as CdkStackProps, Stack } from "aws-cdk-lib";
+import type { Construct } from "constructs";
+import type { Naming } from "./naming";
+import type { FrontHandles } from "./discovery";
+import { Alarms, MonitoringProps, metrics } from "./monitoring";
+
+interface StackProps extends CdkStackProps {
+  readonly monitoringProps: MonitoringProps;
+  readonly naming: Naming;
+  /**
+   * Passed through a cross-region reference in every discovery mode, since
+   * FrontStack publishes its parameters in another region.
+   */
+  readonly front: FrontHandles;
+  /**
+   * CLOUDFRONT-scope web ACL from FrontEdgeStack.
+   */
+  readonly webAclName?: string;
+}
+
+/**
+ * Alarms on CloudFront and its web ACL, whose metrics only exist in
+ * us-east-1.
+ */
+export class MonitoringEdgeStack extends Stack {
+  private readonly monitoringProps: MonitoringProps;
+  private readonly naming: Naming;
+  private readonly front: FrontHandles;
+  private readonly webAclName?: string;
+  private readonly alarms: Alarms;
+
+  constructor(scope: Construct, id: string, props: StackProps) {
+    super(scope, id, props);
+
+    this.monitoringProps = props.monitoringProps;
+    this.naming = props.naming;
+    this.front = props.front;
+    this.webAclName = props.webAclName;
+
+    this.alarms = new Alarms(this, "Alarms", {
+      naming: this.naming,
+      monitoringProps: this.monitoringProps,
+    });
+    this.newFrontAlarms();
+  }
+
+  private newFrontAlarms(): void {
+    const { cloudFront, waf } = this.monitoringProps.thresholds;
+    this.alarms.add("front-5xx-rate", {
+      metric: metrics.cloudFront(
+        this.front.distribution.distributionId,
+        "5xxErrorRate",
+        "Average"
+      ),
+      threshold: cloudFront.errorRatePercent,
+      description: "CloudFront returns 5xx responses.",
+    });
+    if (this.webAclName) {
+      this.alarms.add("front-waf-blocked", {
+        metric: metrics.waf(this.webAclName, "BlockedRequests"),
+        threshold: waf.blockedRequests,
+        description: "The front end's web ACL blocks many requests.",
+      });
+    }
+  }
+}
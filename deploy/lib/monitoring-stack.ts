@@ -0,0 +1,223 @@
+import { StackProps as CdkStackProps, Stack } from "aws-cdk-lib";
+import type { Construct } from "constructs";
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import type { Naming } from "./naming";
+import {
+  APIHandles,
+  DBHandles,
+  FrontHandles,
+  NetworkHandles,
+  NetworkLookupOptions,
+  lookupAPIHandles,
+  lookupDBHandles,
+  lookupFrontHandles,
+  lookupNetworkHandles,
+} from "./discovery";
+import { Alarms, MonitoringProps, metrics } from "./monitoring";
+
+interface StackProps extends CdkStackProps {
+  readonly monitoringProps: MonitoringProps;
+  readonly naming: Naming;
+  /**
+   * Handles from NetworkStack, DBStack, APIStack and FrontStack. When omitted
+   * they are read from the SSM parameters those stacks publish in `ssm`
+   * discovery mode.
+   */
+  readonly network?: NetworkHandles;
+  readonly networkLookup?: NetworkLookupOptions;
+  readonly db?: DBHandles;
+  readonly api?: APIHandles;
+  readonly front?: FrontHandles;
+  /**
+   * CLOUDFRONT-scope web ACL from FrontEdgeStack, graphed on the dashboard.
+   */
+  readonly frontWebAclName?: string;
+}
+
+/**
+ * Dashboard of the whole environment and alarms on its regional resources.
+ * CloudFront alarms live in MonitoringEdgeStack, next to their metrics.
+ */
+export class MonitoringStack extends Stack {
+  private readonly monitoringProps: MonitoringProps;
+  private readonly naming: Naming;
+  private readonly network: NetworkHandles;
+  private readonly db: DBHandles;
+  private readonly api: APIHandles;
+  private readonly front: FrontHandles;
+  private readonly frontWebAclName?: string;
+  private readonly alarms: Alarms;
+
+  constructor(scope: Construct, id: string, props: StackProps) {
+    super(scope, id, props);
+
+    this.monitoringProps = props.monitoringProps;
+    this.naming = props.naming;
+    this.network =
+      props.network ??
+      lookupNetworkHandles(this, this.naming, props.networkLookup);
+    this.db = props.db ?? lookupDBHandles(this, this.naming);
+    this.api = props.api ?? lookupAPIHandles(this, this.naming);
+    this.front = props.front ?? lookupFrontHandles(this, this.naming);
+    this.frontWebAclName = props.frontWebAclName;
+
+    this.alarms = new Alarms(this, "Alarms", {
+      naming: this.naming,
+      monitoringProps: this.monitoringProps,
+    });
+    this.newAPIAlarms();
+    this.newDBAlarms();
+    this.newNATGatewayAlarms();
+    this.newDashboard();
+  }
+
+  private newAPIAlarms(): void {
+    const { appRunner, waf } = this.monitoringProps.thresholds;
+    this.alarms.add("api-5xx", {
+      metric: metrics.appRunner(this.api, "5xxStatusResponses", "Sum"),
+      threshold: appRunner.http5xxCount,
+      description: "The API returns 5xx responses.",
+    });
+    this.alarms.add("api-latency", {
+      metric: metrics.appRunner(this.api, "RequestLatency", "p99"),
+      threshold: appRunner.latencyP99Ms,
+      description: "The API's p99 latency is high.",
+    });
+    this.alarms.add("api-active-instances", {
+      metric: metrics.appRunner(this.api, "ActiveInstances", "Maximum"),
+      threshold: appRunner.activeInstances,
+      description: "The API runs at its auto scaling limit.",
+    });
+    this.alarms.add("api-waf-blocked", {
+      metric: metrics.waf(this.api.webAclName, "BlockedRequests", this.region),
+      threshold: waf.blockedRequests,
+      description: "The API's web ACL blocks many requests.",
+    });
+  }
+
+  private newDBAlarms(): void {
+    const { db } = this.monitoringProps.thresholds;
+    const { clusterIdentifier } = this.db.cluster;
+    this.alarms.add("db-cpu", {
+      metric: metrics.dbCluster(clusterIdentifier, "CPUUtilization", "Maximum"),
+      threshold: db.cpuPercent,
+      description: "An Aurora instance's CPU utilization is high.",
+    });
+    this.alarms.add("db-connections", {
+      metric: metrics.dbCluster(
+        clusterIdentifier,
+        "DatabaseConnections",
+        "Maximum"
+      ),
+      threshold: db.connections,
+      description: "Aurora has many open connections.",
+    });
+    this.alarms.add("db-replica-lag", {
+      metric: metrics.dbCluster(
+        clusterIdentifier,
+        "AuroraReplicaLagMaximum",
+        "Maximum",
+        { Role: "WRITER" }
+      ),
+      threshold: db.replicaLagMs,
+      description: "An Aurora reader lags behind the writer.",
+    });
+    this.alarms.add("db-freeable-memory", {
+      metric: metrics.dbCluster(clusterIdentifier, "FreeableMemory", "Minimum"),
+      threshold: db.freeableMemoryMiB * 1024 * 1024,
+      comparisonOperator: cloudwatch.ComparisonOperator.LESS_THAN_THRESHOLD,
+      description: "An Aurora instance is low on memory.",
+    });
+  }
+
+  private newNATGatewayAlarms(): void {
+    const { nat } = this.monitoringProps.thresholds;
+    this.network.natGatewayIds.forEach((natGatewayId, index) => {
+      this.alarms.add(`nat-${index + 1}-port-allocation-errors`, {
+        metric: metrics.natGateway(natGatewayId, "ErrorPortAllocation"),
+        threshold: nat.errorPortAllocation,
+        description: "A NAT gateway can't allocate source ports.",
+      });
+      this.alarms.add(`nat-${index + 1}-packets-dropped`, {
+        metric: metrics.natGateway(natGatewayId, "PacketsDropCount"),
+        threshold: nat.packetsDropCount,
+        description: "A NAT gateway drops packets.",
+      });
+    });
+  }
+
+  private newDashboard(): void {
+    const { clusterIdentifier } = this.db.cluster;
+    const { distributionId } = this.front.distribution;
+    const graph = (title: string, left: cloudwatch.IMetric[]) =>
+      new cloudwatch.GraphWidget({ title, left, width: 8 });
+
+    const dashboard = new cloudwatch.Dashboard(this, "Dashboard", {
+      dashboardName: this.naming.name("dashboard"),
+    });
+    dashboard.addWidgets(
+      new cloudwatch.AlarmStatusWidget({
+        title: "Alarms",
+        alarms: this.alarms.alarms,
+        width: 24,
+      })
+    );
+    dashboard.addWidgets(
+      graph("API requests", [
+        metrics.appRunner(this.api, "Requests", "Sum"),
+        metrics.appRunner(this.api, "4xxStatusResponses", "Sum"),
+        metrics.appRunner(this.api, "5xxStatusResponses", "Sum"),
+      ]),
+      graph("API latency", [
+        metrics.appRunner(this.api, "RequestLatency", "p50"),
+        metrics.appRunner(this.api, "RequestLatency", "p99"),
+      ]),
+      graph("API instances", [
+        metrics.appRunner(this.api, "ActiveInstances", "Maximum"),
+      ])
+    );
+    dashboard.addWidgets(
+      graph("Aurora CPU", [
+        metrics.dbCluster(clusterIdentifier, "CPUUtilization", "Maximum"),
+      ]),
+      graph("Aurora connections", [
+        metrics.dbCluster(clusterIdentifier, "DatabaseConnections", "Maximum"),
+      ]),
+      graph("Aurora replica lag and memory", [
+        metrics.dbCluster(
+          clusterIdentifier,
+          "AuroraReplicaLagMaximum",
+          "Maximum",
+          { Role: "WRITER" }
+        ),
+        metrics.dbCluster(clusterIdentifier, "FreeableMemory", "Minimum"),
+      ])
+    );
+    dashboard.addWidgets(
+      graph("CloudFront requests", [
+        metrics.cloudFront(distributionId, "Requests", "Sum"),
+      ]),
+      graph("CloudFront error rate", [
+        metrics.cloudFront(distributionId, "4xxErrorRate", "Average"),
+        metrics.cloudFront(distributionId, "5xxErrorRate", "Average"),
+      ]),
+      graph("WAF blocked requests", [
+        metrics.waf(this.api.webAclName, "BlockedRequests", this.region),
+        ...(this.frontWebAclName
+          ? [metrics.waf(this.frontWebAclName, "BlockedRequests")]
+          : []),
+      ])
+    );
+    if (this.network.natGatewayIds.length > 0) {
+      dashboard.addWidgets(
+        graph(
+          "NAT gateway errors",
+          this.network.natGatewayIds.flatMap((natGatewayId) => [
+            metrics.natGateway(natGatewayId, "ErrorPortAllocation"),
+            metrics.natGateway(natGatewayId, "PacketsDropCount"),
+          ])
+        )
+      );
+    }
+  }
+}
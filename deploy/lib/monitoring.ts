@@ -0,0 +1,194 @@
+import { Duration } from "aws-cdk-lib";
+import { Construct } from "constructs";
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import * as actions from "aws-cdk-lib/aws-cloudwatch-actions";
+import * as sns from "aws-cdk-lib/aws-sns";
+import * as subscriptions from "aws-cdk-lib/aws-sns-subscriptions";
+import type { Naming } from "./naming";
+
+export type MonitoringProps = {
+  readonly notifications: {
+    readonly emails: string[];
+    /**
+     * HTTPS endpoints, e.g. a chat webhook, that receive the SNS messages.
+     */
+    readonly urls: string[];
+  };
+  /**
+   * Consecutive 5-minute periods a threshold has to be crossed before an
+   * alarm fires.
+   */
+  readonly evaluationPeriods: number;
+  readonly thresholds: {
+    readonly appRunner: {
+      readonly http5xxCount: number;
+      readonly latencyP99Ms: number;
+      /**
+       * Defaults to the auto scaling maximum, i.e. the service is at capacity.
+       */
+      readonly activeInstances: number;
+    };
+    readonly db: {
+      readonly cpuPercent: number;
+      readonly connections: number;
+      readonly replicaLagMs: number;
+      readonly freeableMemoryMiB: number;
+    };
+    readonly cloudFront: {
+      readonly errorRatePercent: number;
+    };
+    readonly waf: {
+      readonly blockedRequests: number;
+    };
+    readonly nat: {
+      readonly errorPortAllocation: number;
+      readonly packetsDropCount: number;
+    };
+  };
+};
+
+const PERIOD = Duration.minutes(5);
+
+/**
+ * Metrics the monitoring stacks graph and alarm on. CloudFront publishes its
+ * metrics, and those of CLOUDFRONT-scope web ACLs, only in us-east-1.
+ */
+export const metrics = {
+  appRunner(
+    service: { readonly serviceName: string; readonly serviceId: string },
+    metricName: string,
+    statistic: string
+  ): cloudwatch.Metric {
+    return new cloudwatch.Metric({
+      namespace: "AWS/AppRunner",
+      metricName,
+      dimensionsMap: {
+        ServiceName: service.serviceName,
+        ServiceID: service.serviceId,
+      },
+      statistic,
+      period: PERIOD,
+    });
+  },
+
+  dbCluster(
+    clusterIdentifier: string,
+    metricName: string,
+    statistic: string,
+    dimensions: Record<string, string> = {}
+  ): cloudwatch.Metric {
+    return new cloudwatch.Metric({
+      namespace: "AWS/RDS",
+      metricName,
+      dimensionsMap: { DBClusterIdentifier: clusterIdentifier, ...dimensions },
+      statistic,
+      period: PERIOD,
+    });
+  },
+
+  cloudFront(
+    distributionId: string,
+    metricName: string,
+    statistic: string
+  ): cloudwatch.Metric {
+    return new cloudwatch.Metric({
+      namespace: "AWS/CloudFront",
+      metricName,
+      dimensionsMap: { DistributionId: distributionId, Region: "Global" },
+      statistic,
+      period: PERIOD,
+      region: "us-east-1",
+    });
+  },
+
+  /**
+   * Pass the `region` of a REGIONAL web ACL; CLOUDFRONT-scope ones have no
+   * Region dimension.
+   */
+  waf(
+    webAclName: string,
+    metricName: string,
+    region?: string
+  ): cloudwatch.Metric {
+    return new cloudwatch.Metric({
+      namespace: "AWS/WAFV2",
+      metricName,
+      dimensionsMap: region
+        ? { WebACL: webAclName, Rule: "ALL", Region: region }
+        : { WebACL: webAclName, Rule: "ALL" },
+      statistic: "Sum",
+      period: PERIOD,
+      region: region ? undefined : "us-east-1",
+    });
+  },
+
+  natGateway(natGatewayId: string, metricName: string): cloudwatch.Metric {
+    return new cloudwatch.Metric({
+      namespace: "AWS/NATGateway",
+      metricName,
+      dimensionsMap: { NatGatewayId: natGatewayId },
+      statistic: "Sum",
+      period: PERIOD,
+    });
+  },
+};
+
+type AlarmOptions = {
+  readonly metric: cloudwatch.IMetric;
+  readonly threshold: number;
+  readonly comparisonOperator?: cloudwatch.ComparisonOperator;
+  readonly description: string;
+};
+
+type AlarmsProps = {
+  readonly naming: Naming;
+  readonly monitoringProps: MonitoringProps;
+};
+
+/**
+ * SNS topic with the subscriptions from MonitoringProps.notifications, and
+ * the alarms that notify it. Missing data never fires an alarm, so alarms on
+ * idle or scaled-in resources stay quiet.
+ */
+export class Alarms extends Construct {
+  readonly topic: sns.Topic;
+  readonly alarms: cloudwatch.Alarm[] = [];
+
+  private readonly props: AlarmsProps;
+
+  constructor(scope: Construct, id: string, props: AlarmsProps) {
+    super(scope, id);
+
+    this.props = props;
+
+    this.topic = new sns.Topic(this, "Topic", {
+      topicName: props.naming.name("alarms"),
+    });
+    const { emails, urls } = props.monitoringProps.notifications;
+    for (const email of emails) {
+      this.topic.addSubscription(new subscriptions.EmailSubscription(email));
+    }
+    for (const url of urls) {
+      this.topic.addSubscription(new subscriptions.UrlSubscription(url));
+    }
+  }
+
+  add(name: string, options: AlarmOptions): cloudwatch.Alarm {
+    const alarm = new cloudwatch.Alarm(this, name, {
+      alarmName: this.props.naming.name(name),
+      alarmDescription: options.description,
+      metric: options.metric,
+      threshold: options.threshold,
+      comparisonOperator:
+        options.comparisonOperator ??
+        cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      evaluationPeriods: this.props.monitoringProps.evaluationPeriods,
+      treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+    });
+    const action = new actions.SnsAction(this.topic);
+    alarm.addAlarmAction(action);
+    alarm.addOkAction(action);
+    this.alarms.push(alarm);
+    return alarm;
+  }
+}
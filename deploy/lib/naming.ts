@@ -0,0 +1,107 @@
+import { createHash } from "crypto";
+import type { EnvType } from "./config";
+
+/**
+ * Builds physical resource names prefixed with the environment and optional
+ * stage, e.g. `dev-api` or `dev-alice-api`, so several environments can live
+ * in the same account. Names longer than a service limit are shortened with
+ * a hash suffix, which keeps them unique and stable between synths.
+ */
+export class Naming {
+  static readonly S3_BUCKET_MAX_LENGTH = 63;
+  static readonly ACCOUNT_ID_LENGTH = 12;
+  static readonly IAM_ROLE_MAX_LENGTH = 64;
+  static readonly RDS_IDENTIFIER_MAX_LENGTH = 63;
+  static readonly APP_RUNNER_NAME_MAX_LENGTH = 40;
+  static readonly APP_RUNNER_CONFIGURATION_NAME_MAX_LENGTH = 32;
+  static readonly XRAY_SAMPLING_RULE_NAME_MAX_LENGTH = 32;
+
+  readonly prefix: string;
+
+  constructor(readonly envType: EnvType, readonly stage?: string) {
+    this.prefix = stage ? `${envType}-${stage}` : envType;
+  }
+
+  name(base: string, maxLength?: number): string {
+    const name = `${this.prefix}-${base}`;
+    return maxLength === undefined ? name : this.shorten(name, maxLength);
+  }
+
+  stackId(base: string): string {
+    return this.name(`${base}-stack`);
+  }
+
+  /**
+   * Host name under `zoneName`; stages get their own level, e.g.
+   * `alice.app.example.com`, so sandboxes don't share records.
+   */
+  domainName(subdomain: string, zoneName: string): string {
+    const host = this.stage ? `${this.stage}.${subdomain}` : subdomain;
+    return `${host}.${zoneName}`;
+  }
+
+  parameterName(path: string): string {
+    return `/${this.prefix}/${path}`;
+  }
+
+  /**
+   * Bucket names are unique across all accounts, so the account ID is
+   * appended, e.g. `dev-front-hosting-123456789012`.
+   */
+  bucketName(base: string, account: string): string {
+    return this.withAccount(this.name(base).toLowerCase(), account);
+  }
+
+  roleName(base: string): string {
+    return this.name(base, Naming.IAM_ROLE_MAX_LENGTH);
+  }
+
+  dbIdentifier(base: string): string {
+    return this.shorten(
+      this.name(base).toLowerCase(),
+      Naming.RDS_IDENTIFIER_MAX_LENGTH
+    );
+  }
+
+  appRunnerName(base: string): string {
+    return this.name(base, Naming.APP_RUNNER_NAME_MAX_LENGTH);
+  }
+
+  /**
+   * Auto scaling and observability configurations.
+   */
+  appRunnerConfigurationName(base: string): string {
+    return this.name(base, Naming.APP_RUNNER_CONFIGURATION_NAME_MAX_LENGTH);
+  }
+
+  samplingRuleName(base: string): string {
+    return this.name(base, Naming.XRAY_SAMPLING_RULE_NAME_MAX_LENGTH);
+  }
+
+  /**
+   * WAF only delivers logs to log groups and buckets named `aws-waf-logs-*`.
+   * Buckets get the account ID like `bucketName`.
+   */
+  wafLogDestinationName(base: string, account?: string): string {
+    const name = `aws-waf-logs-${this.name(base)}`.toLowerCase();
+    return account === undefined
+      ? this.shorten(name, Naming.S3_BUCKET_MAX_LENGTH)
+      : this.withAccount(name, account);
+  }
+
+  // `account` may be a token, so only `name` is shortened.
+  private withAccount(name: string, account: string): string {
+    const maxLength =
+      Naming.S3_BUCKET_MAX_LENGTH - Naming.ACCOUNT_ID_LENGTH - 1;
+    return `${this.shorten(name, maxLength)}-${account}`;
+  }
+
+  private shorten(name: string, maxLength: number): string {
+    if (name.length <= maxLength) {
+      return name;
+    }
+    const hash = createHash("sha256").update(name).digest("hex").slice(0, 8);
+    const head = name.slice(0, maxLength - hash.length - 1).replace(/-+$/, "");
+    return `${head}-${hash}`;
+  }
+}
@@ -1,7 +1,13 @@
-import { StackProps as CdkStackProps, Stack, CfnOutput } from "aws-cdk-lib";
+import { StackProps as CdkStackProps, Stack } from "aws-cdk-lib";
 import { Construct } from "constructs";
 import * as ec2 from "aws-cdk-lib/aws-ec2";
 import * as apprunner from "@aws-cdk/aws-apprunner-alpha";
+import type { Naming } from "./naming";
+import {
+  DiscoveryMode,
+  NetworkHandles,
+  publishNetworkHandles,
+} from "./discovery";
 
 export type NetworkProps = {
   readonly vpc: {
@@ -10,33 +16,50 @@ export type NetworkProps = {
     readonly subnetConfiguration: {
       readonly cidrMask: number;
       readonly name: string;
-      readonly subnetType: string;
+      readonly subnetType: "public" | "private" | "isolated";
     }[];
     readonly natGatewaysCount: number;
   };
-  readonly hostedZoneName: string;
+  readonly hostedZoneName?: string;
 };
 
 interface StackProps extends CdkStackProps {
   readonly networkProps: NetworkProps;
+  readonly naming: Naming;
+  readonly discovery: DiscoveryMode;
 }
 
-export class NetworkStack extends Stack {
+export class NetworkStack extends Stack implements NetworkHandles {
   readonly vpc: ec2.Vpc;
+  readonly vpcConnector: apprunner.VpcConnector;
+  readonly vpcConnectorSecurityGroup: ec2.SecurityGroup;
+  readonly natGatewayIds: string[];
   readonly networkProps: NetworkProps;
 
+  private readonly naming: Naming;
+
   constructor(scope: Construct, id: string, props: StackProps) {
     super(scope, id, props);
 
     this.networkProps = props.networkProps;
+    this.naming = props.naming;
+
+    const natGatewayProvider = ec2.NatProvider.gateway();
+    this.vpc = this.newVPC(natGatewayProvider);
+    this.natGatewayIds = natGatewayProvider.configuredGateways.map(
+      (gateway) => gateway.gatewayId
+    );
+    this.vpcConnectorSecurityGroup = this.newVPCConnectorSecurityGroup();
+    this.vpcConnector = this.newVPCConnector();
 
-    this.vpc = this.newVPC();
-    this.newVPCConnector();
+    if (props.discovery === "ssm") {
+      publishNetworkHandles(this, this.naming, this);
+    }
   }
 
-  private newVPC(): ec2.Vpc {
+  private newVPC(natGatewayProvider: ec2.NatProvider): ec2.Vpc {
     return new ec2.Vpc(this, "VPC", {
-      vpcName: "vpc",
+      vpcName: this.naming.name("vpc"),
       ipAddresses: ec2.IpAddresses.cidr(this.networkProps.vpc.cidr),
       maxAzs: this.networkProps.vpc.maxAzs,
       subnetConfiguration: this.networkProps.vpc.subnetConfiguration.map(
@@ -47,40 +70,31 @@ export class NetworkStack extends Stack {
         })
       ),
       natGateways: this.networkProps.vpc.natGatewaysCount,
+      natGatewayProvider,
     });
   }
 
-  private newVPCConnector(): void {
-    const apiVPCConnectorSg = new ec2.SecurityGroup(
-      this,
-      "VPCConnectorSecurityGroup",
-      {
-        securityGroupName: "vpc-connector-sg",
-        vpc: this.vpc,
-      }
-    );
-
-    new CfnOutput(this, "VPCConnectorSgIdOutput", {
-      exportName: "vpc-connector-sg-id",
-      value: apiVPCConnectorSg.securityGroupId,
+  private newVPCConnectorSecurityGroup(): ec2.SecurityGroup {
+    return new ec2.SecurityGroup(this, "VPCConnectorSecurityGroup", {
+      securityGroupName: this.naming.name("vpc-connector-sg"),
+      vpc: this.vpc,
     });
+  }
 
-    const vpcConnector = new apprunner.VpcConnector(this, "VPCConnector", {
-      vpcConnectorName: "vpc-connector",
+  private newVPCConnector(): apprunner.VpcConnector {
+    return new apprunner.VpcConnector(this, "VPCConnector", {
+      vpcConnectorName: this.naming.appRunnerName("vpc-connector"),
       vpc: this.vpc,
       vpcSubnets: this.vpc.selectSubnets({
         subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
       }),
-      securityGroups: [apiVPCConnectorSg],
-    });
-
-    new CfnOutput(this, "VPCConnectorSecretOutput", {
-      exportName: "vpc-connector-arn",
-      value: vpcConnector.vpcConnectorArn,
+      securityGroups: [this.vpcConnectorSecurityGroup],
     });
   }
 
-  private getSubnetType(subnet: string): ec2.SubnetType {
+  private getSubnetType(
+    subnet: NetworkProps["vpc"]["subnetConfiguration"][number]["subnetType"]
+  ): ec2.SubnetType {
     switch (subnet) {
       case "public":
         return ec2.SubnetType.PUBLIC;
@@ -0,0 +1,54 @@
+import * as fs from "fs";
+import * as path from "path";
+import type * as cdk from "aws-cdk-lib";
+import type * as cxapi from "aws-cdk-lib/cx-api";
+
+export const FIXTURES_PATH = path.join(__dirname, "..", "fixtures");
+
+export type Fixtures = {
+  /**
+   * Account and region every stack is pinned to; the lookup keys in
+   * lookups.json embed them.
+   */
+  readonly account: string;
+  readonly region: string;
+  /**
+   * Stand-in for API_PATH, whose Dockerfiles are never built by a synth.
+   */
+  readonly apiDirectory: string;
+};
+
+/**
+ * Seeds the app's context with the lookup results in fixtures/lookups.json
+ * (hosted zones, the KMS alias, the VPC and the availability zones), so
+ * `-c offline=true` synthesizes without credentials.
+ * Must run before any stack is added to the app.
+ */
+export function useFixtures(app: cdk.App): Fixtures {
+  const { account, region, context } = JSON.parse(
+    fs.readFileSync(path.join(FIXTURES_PATH, "lookups.json"), "utf8")
+  ) as {
+    account: string;
+    region: string;
+    context: Record<string, unknown>;
+  };
+  for (const [key, value] of Object.entries(context)) {
+    app.node.setContext(key, value);
+  }
+  return { account, region, apiDirectory: path.join(FIXTURES_PATH, "api") };
+}
+
+/**
+ * The CLI would otherwise fall back to looking up the missing values in the
+ * account.
+ */
+export function assertNoMissingContext(assembly: cxapi.CloudAssembly): void {
+  const missing = assembly.manifest.missing ?? [];
+  if (missing.length > 0) {
+    throw new Error(
+      `Offline synth has no fixture for these lookups, add them to fixtures/lookups.json:\n${missing
+        .map(({ key }) => `  - ${key}`)
+        .join("\n")}`
+    );
+  }
+}
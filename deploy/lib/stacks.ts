@@ -0,0 +1,233 @@
+import * as cdk from "aws-cdk-lib";
+import { API_PATH, APIStack } from "./api-stack";
+import { NetworkStack } from "./network-stack";
+import { DBStack } from "./db-stack";
+import { DBBastionStack } from "./db-bastion-stack";
+import { FrontStack } from "./front-stack";
+import { FrontEdgeStack } from "./front-edge-stack";
+import { FrontPreviewStack } from "./front-preview-stack";
+import { FrontPreviewBranchStack } from "./front-preview-branch-stack";
+import { MonitoringStack } from "./monitoring-stack";
+import { MonitoringEdgeStack } from "./monitoring-edge-stack";
+import type { Config } from "./config";
+import { dataProtection } from "./data-protection";
+import { Naming } from "./naming";
+import { useFixtures } from "./offline";
+
+export type Stacks = {
+  readonly network: NetworkStack;
+  readonly db: DBStack;
+  readonly bastion?: DBBastionStack;
+  readonly api: APIStack;
+  readonly frontEdge?: FrontEdgeStack;
+  readonly front: FrontStack;
+  readonly monitoring: MonitoringStack;
+  readonly monitoringEdge?: MonitoringEdgeStack;
+  readonly frontPreview?: FrontPreviewStack;
+  readonly frontPreviewBranch?: FrontPreviewBranchStack;
+};
+
+/**
+ * Adds every stack of the configured environment to `app`.
+ */
+export function createStacks(app: cdk.App, config: Config): Stacks {
+  const {
+    envType,
+    commitHash,
+    stage,
+    previewBranch,
+    offline,
+    discovery,
+    dataProtection: dataProtectionProfile,
+    api: apiProps,
+    network: networkProps,
+    db: dbProps,
+    bastion: bastionProps,
+    front: frontProps,
+    monitoring: monitoringProps,
+  } = config;
+
+  const fixtures = offline ? useFixtures(app) : undefined;
+  const account = fixtures?.account ?? process.env.CDK_DEFAULT_ACCOUNT;
+  const region = fixtures?.region ?? process.env.CDK_DEFAULT_REGION;
+
+  const naming = new Naming(envType, stage);
+  const protection = dataProtection(dataProtectionProfile);
+
+  // In `ssm` discovery mode consumers read their dependencies from SSM
+  // parameters instead of receiving them as props.
+  const direct = discovery === "direct";
+
+  const network = new NetworkStack(app, naming.stackId("network"), {
+    networkProps,
+    naming,
+    discovery,
+    env: { account, region },
+  });
+
+  const db = new DBStack(app, naming.stackId("db"), {
+    dbProps,
+    dataProtection: protection,
+    naming,
+    discovery,
+    network: direct ? network : undefined,
+    env: { account, region },
+  });
+  db.addDependency(network);
+
+  const bastion = bastionProps.enabled
+    ? new DBBastionStack(app, naming.stackId("db-bastion"), {
+        bastionProps,
+        naming,
+        network: direct ? network : undefined,
+        db: direct ? db : undefined,
+        env: { account, region },
+      })
+    : undefined;
+  if (bastion) {
+    bastion.addDependency(db);
+  }
+
+  const api = new APIStack(app, naming.stackId("api"), {
+    envType,
+    commitHash,
+    apiProps,
+    dataProtection: protection,
+    imageDirectory: fixtures?.apiDirectory ?? API_PATH,
+    offline,
+    naming,
+    discovery,
+    network: direct ? network : undefined,
+    db: direct ? db : undefined,
+    dbLookup: DBStack.lookupOptions(dbProps),
+    hostedZoneName: networkProps.hostedZoneName,
+    env: { account, region },
+  });
+  api.addDependency(network);
+  api.addDependency(db);
+
+  // CloudFront only accepts web ACLs and certificates from us-east-1, so they
+  // live in a separate stack there.
+  const frontEdge =
+    frontProps.waf ||
+    frontProps.domain?.certificate.mode === "create" ||
+    frontProps.preview
+      ? new FrontEdgeStack(app, naming.stackId("front-edge"), {
+          frontProps,
+          dataProtection: protection,
+          naming,
+          env: {
+            account,
+            region: "us-east-1",
+          },
+          crossRegionReferences: true,
+        })
+      : undefined;
+
+  const front = new FrontStack(app, naming.stackId("front"), {
+    commitHash,
+    frontProps,
+    dataProtection: protection,
+    naming,
+    discovery,
+    api: direct ? api : undefined,
+    apiLookup: { originVerification: apiProps.originVerification },
+    webAclArn: frontEdge?.webAclArn,
+    certificate: frontEdge?.certificate,
+    env: { account, region },
+    // MonitoringEdgeStack reads the distribution from us-east-1.
+    crossRegionReferences: true,
+  });
+  front.addDependency(api);
+  if (frontEdge) {
+    front.addDependency(frontEdge);
+  }
+
+  const monitoring = new MonitoringStack(app, naming.stackId("monitoring"), {
+    monitoringProps,
+    naming,
+    network: direct ? network : undefined,
+    networkLookup: { natGatewaysCount: networkProps.vpc.natGatewaysCount },
+    db: direct ? db : undefined,
+    api: direct ? api : undefined,
+    front: direct ? front : undefined,
+    frontWebAclName: frontEdge?.webAclName,
+    env: { account, region },
+  });
+  monitoring.addDependency(front);
+
+  // The CloudFront alarms need a stack in us-east-1, which every deploy would
+  // then have to be bootstrapped for; without subscribers they notify nobody.
+  const { emails, urls } = monitoringProps.notifications;
+  const monitoringEdge =
+    emails.length > 0 || urls.length > 0
+      ? new MonitoringEdgeStack(app, naming.stackId("monitoring-edge"), {
+          monitoringProps,
+          naming,
+          front,
+          webAclName: frontEdge?.webAclName,
+          env: {
+            account,
+            region: "us-east-1",
+          },
+          crossRegionReferences: true,
+        })
+      : undefined;
+  if (monitoringEdge) {
+    monitoringEdge.addDependency(front);
+  }
+
+  const frontPreview =
+    frontProps.preview && frontEdge?.previewCertificate
+      ? new FrontPreviewStack(app, naming.stackId("front-preview"), {
+          frontProps,
+          dataProtection: protection,
+          naming,
+          discovery,
+          api: direct ? api : undefined,
+          apiLookup: { originVerification: apiProps.originVerification },
+          certificate: frontEdge.previewCertificate,
+          env: { account, region },
+          crossRegionReferences: true,
+        })
+      : undefined;
+  if (frontPreview) {
+    frontPreview.addDependency(api);
+  }
+
+  // `-c preview=<branch>` adds the stack of one branch preview; destroying it
+  // removes the preview.
+  const frontPreviewBranch =
+    frontPreview && previewBranch
+      ? new FrontPreviewBranchStack(
+          app,
+          naming.stackId(`front-preview-${previewBranch}`),
+          {
+            branch: previewBranch,
+            commitHash,
+            frontProps,
+            naming,
+            preview: direct ? frontPreview : undefined,
+            api: direct ? api : undefined,
+            apiLookup: { originVerification: apiProps.originVerification },
+            env: { account, region },
+          }
+        )
+      : undefined;
+  if (frontPreview && frontPreviewBranch) {
+    frontPreviewBranch.addDependency(frontPreview);
+  }
+
+  return {
+    network,
+    db,
+    bastion,
+    api,
+    frontEdge,
+    front,
+    monitoring,
+    monitoringEdge,
+    frontPreview,
+    frontPreviewBranch,
+  };
+}
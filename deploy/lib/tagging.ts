@@ -0,0 +1,104 @@
+import { CfnResource, Tags, TagManager } from "aws-cdk-lib";
+import type { IConstruct } from "constructs";
+import type { Stacks } from "./stacks";
+
+export type TaggingProps = {
+  readonly service: string;
+  readonly owner: string;
+  readonly costCenter: string;
+  /**
+   * Extra tags per stack, e.g. the team that owns it, keyed like Stacks.
+   */
+  readonly stacks: Partial<Record<keyof Stacks, Record<string, string>>>;
+};
+
+export const STACK_KEYS: readonly (keyof Stacks)[] = [
+  "network",
+  "db",
+  "bastion",
+  "api",
+  "frontEdge",
+  "front",
+  "monitoring",
+  "monitoringEdge",
+  "frontPreview",
+  "frontPreviewBranch",
+];
+
+/**
+ * Cost allocation tags every taggable resource must carry. Activate them in
+ * the Billing console to split reports by them.
+ */
+export const REQUIRED_TAGS = [
+  "env",
+  "service",
+  "commit",
+  "owner",
+  "cost-center",
+] as const;
+
+/**
+ * Changing the tags of these resources replaces them, so they don't get the
+ * `commit` tag, which changes with every deploy.
+ */
+const REPLACED_ON_TAG_CHANGE = [
+  "AWS::AppRunner::Service",
+  "AWS::AppRunner::VpcConnector",
+  "AWS::AppRunner::ObservabilityConfiguration",
+];
+
+// Stack tags would reach REPLACED_ON_TAG_CHANGE resources through
+// CloudFormation's own propagation, so only resources are tagged.
+const STACK_RESOURCE_TYPE = "aws:cdk:stack";
+
+/**
+ * Tags every taggable resource of the app with REQUIRED_TAGS, and those of
+ * each stack with its extra tags. Call it before adding the Guardrails
+ * aspect, which checks the required tags: aspects of the app run before those
+ * of a stack.
+ */
+export function applyTags(
+  app: IConstruct,
+  stacks: Stacks,
+  tagging: TaggingProps,
+  env: string,
+  commitHash: string
+): void {
+  const excludeResourceTypes = [STACK_RESOURCE_TYPE];
+  const tags = Tags.of(app);
+  tags.add("env", env, { excludeResourceTypes });
+  tags.add("service", tagging.service, { excludeResourceTypes });
+  tags.add("commit", commitHash, {
+    excludeResourceTypes: [...excludeResourceTypes, ...REPLACED_ON_TAG_CHANGE],
+  });
+  tags.add("owner", tagging.owner, { excludeResourceTypes });
+  tags.add("cost-center", tagging.costCenter, { excludeResourceTypes });
+
+  for (const key of STACK_KEYS) {
+    const stack = stacks[key];
+    if (stack === undefined) {
+      continue;
+    }
+    for (const [name, value] of Object.entries(tagging.stacks[key] ?? {})) {
+      Tags.of(stack).add(name, value, { excludeResourceTypes });
+    }
+  }
+}
+
+/**
+ * REQUIRED_TAGS `node` lacks; empty for resources that can't be tagged.
+ */
+export function missingTags(node: IConstruct): string[] {
+  if (!(node instanceof CfnResource) || !TagManager.isTaggable(node)) {
+    return [];
+  }
+  const tags = node.tags.tagValues();
+  return REQUIRED_TAGS.filter(
+    (key) =>
+      tags[key] === undefined &&
+      !(
+        key === "commit" &&
+        REPLACED_ON_TAG_CHANGE.includes(node.cfnResourceType)
+      )
+  );
+}
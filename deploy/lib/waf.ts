@@ -0,0 +1,291 @@
+import { ArnFormat, Duration, Stack } from "aws-cdk-lib";
+import { Construct } from "constructs";
+import * as wafv2 from "aws-cdk-lib/aws-wafv2";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import type { DataProtection } from "./data-protection";
+import type { Naming } from "./naming";
+
+export type WAFRuleAction = "allow" | "block" | "count";
+
+export type WAFProps = {
+  readonly defaultAction: "allow" | "block";
+  readonly managedRuleGroups: {
+    readonly name: string;
+    readonly vendorName: string;
+    readonly version?: string;
+    /**
+     * `count` evaluates the whole group without blocking.
+     */
+    readonly overrideAction: "none" | "count";
+    readonly excludedRules: string[];
+    readonly ruleActionOverrides: {
+      readonly name: string;
+      readonly action: WAFRuleAction;
+    }[];
+  }[];
+  /**
+   * Requests per 5 minutes from one IP address.
+   */
+  readonly rateLimits: {
+    readonly name: string;
+    readonly limit: number;
+    readonly action: "block" | "count";
+  }[];
+  readonly ipSets: {
+    readonly name: string;
+    readonly ipAddressVersion: "IPV4" | "IPV6";
+    readonly addresses: string[];
+    readonly action: WAFRuleAction;
+  }[];
+  readonly geoMatches: {
+    readonly name: string;
+    readonly countryCodes: string[];
+    /**
+     * Match requests from every country except `countryCodes`.
+     */
+    readonly negate: boolean;
+    readonly action: WAFRuleAction;
+  }[];
+  readonly logging?: {
+    readonly destination: "cloudWatchLogs" | "s3";
+    readonly retentionDays: number;
+    readonly redactedFields: {
+      readonly headers: string[];
+      readonly queryString: boolean;
+      readonly uriPath: boolean;
+    };
+  };
+};
+
+type Rule = Omit<wafv2.CfnWebACL.RuleProperty, "priority">;
+
+type WebACLProps = {
+  /**
+   * `CLOUDFRONT` web ACLs must be created in us-east-1.
+   */
+  readonly scope: "REGIONAL" | "CLOUDFRONT";
+  readonly name: string;
+  readonly naming: Naming;
+  readonly wafProps: WAFProps;
+  /**
+   * Applies to the log destination, whose fixed name a retained copy would
+   * block on the next deploy.
+   */
+  readonly dataProtection: DataProtection;
+  /**
+   * Blocks requests without this header value ahead of every other rule.
+   */
+  readonly requiredHeader?: {
+    readonly name: string;
+    readonly value: string;
+  };
+};
+
+/**
+ * Web ACL built from a WAFProps block. Rules are evaluated in the order
+ * required header, IP sets, geo matches, rate limits, then managed rule
+ * groups, each kind in declaration order, and get their priorities from that
+ * order.
+ */
+export class WebACL extends Construct {
+  readonly webAcl: wafv2.CfnWebACL;
+  /**
+   * Also the `WebACL` dimension of its CloudWatch metrics.
+   */
+  readonly name: string;
+
+  private readonly props: WebACLProps;
+
+  constructor(scope: Construct, id: string, props: WebACLProps) {
+    super(scope, id);
+
+    this.props = props;
+
+    const rules = [
+      ...this.newRequiredHeaderRules(),
+      ...this.newIPSetRules(),
+      ...this.newGeoMatchRules(),
+      ...this.newRateLimitRules(),
+      ...this.newManagedRuleGroupRules(),
+    ].map((rule, priority) => ({ ...rule, priority }));
+
+    this.name = props.naming.name(props.name);
+    this.webAcl = new wafv2.CfnWebACL(this, "WebACL", {
+      name: this.name,
+      defaultAction: { [props.wafProps.defaultAction]: {} },
+      scope: props.scope,
+      rules,
+      visibilityConfig: this.visibilityConfig(this.name),
+    });
+
+    if (props.wafProps.logging) {
+      this.newLoggingConfiguration(props.wafProps.logging);
+    }
+  }
+
+  private visibilityConfig(
+    metricName: string
+  ): wafv2.CfnWebACL.VisibilityConfigProperty {
+    return {
+      metricName,
+      cloudWatchMetricsEnabled: true,
+      sampledRequestsEnabled: true,
+    };
+  }
+
+  private action(action: WAFRuleAction): wafv2.CfnWebACL.RuleActionProperty {
+    return { [action]: {} };
+  }
+
+  private newRequiredHeaderRules(): Rule[] {
+    const { requiredHeader } = this.props;
+    if (requiredHeader === undefined) {
+      return [];
+    }
+    const name = "RequiredHeader";
+    return [
+      {
+        name,
+        action: this.action("block"),
+        visibilityConfig: this.visibilityConfig(name),
+        statement: {
+          notStatement: {
+            statement: {
+              byteMatchStatement: {
+                fieldToMatch: {
+                  // Untyped in the L1, so the key is passed as written.
+                  singleHeader: { Name: requiredHeader.name },
+                },
+                positionalConstraint: "EXACTLY",
+                searchString: requiredHeader.value,
+                textTransformations: [{ priority: 0, type: "NONE" }],
+              },
+            },
+          },
+        },
+      },
+    ];
+  }
+
+  private newIPSetRules(): Rule[] {
+    const { naming, scope, wafProps } = this.props;
+    return wafProps.ipSets.map((ipSet) => {
+      const cfnIPSet = new wafv2.CfnIPSet(this, `${ipSet.name}IPSet`, {
+        name: naming.name(`${this.props.name}-${ipSet.name}`),
+        scope,
+        ipAddressVersion: ipSet.ipAddressVersion,
+        addresses: ipSet.addresses,
+      });
+      return {
+        name: ipSet.name,
+        action: this.action(ipSet.action),
+        visibilityConfig: this.visibilityConfig(ipSet.name),
+        statement: {
+          ipSetReferenceStatement: { arn: cfnIPSet.attrArn },
+        },
+      };
+    });
+  }
+
+  private newGeoMatchRules(): Rule[] {
+    return this.props.wafProps.geoMatches.map((geoMatch) => {
+      const statement: wafv2.CfnWebACL.StatementProperty = {
+        geoMatchStatement: { countryCodes: geoMatch.countryCodes },
+      };
+      return {
+        name: geoMatch.name,
+        action: this.action(geoMatch.action),
+        visibilityConfig: this.visibilityConfig(geoMatch.name),
+        statement: geoMatch.negate
+          ? { notStatement: { statement } }
+          : statement,
+      };
+    });
+  }
+
+  private newRateLimitRules(): Rule[] {
+    return this.props.wafProps.rateLimits.map((rateLimit) => ({
+      name: rateLimit.name,
+      action: this.action(rateLimit.action),
+      visibilityConfig: this.visibilityConfig(rateLimit.name),
+      statement: {
+        rateBasedStatement: {
+          limit: rateLimit.limit,
+          aggregateKeyType: "IP",
+        },
+      },
+    }));
+  }
+
+  private newManagedRuleGroupRules(): Rule[] {
+    return this.props.wafProps.managedRuleGroups.map((group) => ({
+      name: group.name,
+      overrideAction: { [group.overrideAction]: {} },
+      visibilityConfig: this.visibilityConfig(group.name),
+      statement: {
+        managedRuleGroupStatement: {
+          vendorName: group.vendorName,
+          name: group.name,
+          version: group.version,
+          excludedRules:
+            group.excludedRules.length > 0
+              ? group.excludedRules.map((name) => ({ name }))
+              : undefined,
+          ruleActionOverrides:
+            group.ruleActionOverrides.length > 0
+              ? group.ruleActionOverrides.map((override) => ({
+                  name: override.name,
+                  actionToUse: this.action(override.action),
+                }))
+              : undefined,
+        },
+      },
+    }));
+  }
+
+  private newLoggingConfiguration(
+    logging: NonNullable<WAFProps["logging"]>
+  ): void {
+    let logDestination: string;
+    if (logging.destination === "cloudWatchLogs") {
+      const logGroup = new logs.LogGroup(this, "LogGroup", {
+        logGroupName: this.props.naming.wafLogDestinationName(this.props.name),
+        retention: logging.retentionDays as logs.RetentionDays,
+        removalPolicy: this.props.dataProtection.removalPolicy,
+      });
+      // WAF rejects the `:*` suffix of LogGroup.logGroupArn.
+      logDestination = Stack.of(this).formatArn({
+        service: "logs",
+        resource: "log-group",
+        resourceName: logGroup.logGroupName,
+        arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+      });
+    } else {
+      const bucket = new s3.Bucket(this, "LogBucket", {
+        bucketName: this.props.naming.wafLogDestinationName(
+          this.props.name,
+          Stack.of(this).account
+        ),
+        blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+        encryption: s3.BucketEncryption.S3_MANAGED,
+        enforceSSL: true,
+        lifecycleRules: [{ expiration: Duration.days(logging.retentionDays) }],
+        removalPolicy: this.props.dataProtection.removalPolicy,
+        autoDeleteObjects: this.props.dataProtection.autoDelete,
+      });
+      logDestination = bucket.bucketArn;
+    }
+
+    const { headers, queryString, uriPath } = logging.redactedFields;
+    new wafv2.CfnLoggingConfiguration(this, "LoggingConfiguration", {
+      resourceArn: this.webAcl.attrArn,
+      logDestinationConfigs: [logDestination],
+      redactedFields: [
+        ...headers.map((name) => ({ singleHeader: { Name: name } })),
+        ...(queryString ? [{ queryString: {} }] : []),
+        ...(uriPath ? [{ uriPath: {} }] : []),
+      ],
+    });
+  }
+}
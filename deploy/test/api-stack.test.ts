@@ -0,0 +1,278 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Match } from "aws-cdk-lib/assertions";
+import {
+  TestApp,
+  getContext,
+  loadContext,
+  setContext,
+  synthesize,
+} from "./helpers";
+
+describe("APIStack", () => {
+  let app: TestApp;
+
+  beforeAll(() => {
+    const context = loadContext();
+    const environment = getContext(context, "base.api.environment");
+    if (!Array.isArray(environment)) {
+      throw new Error("base.api.environment is not a list");
+    }
+    environment.push(
+      {
+        name: "FEATURE_FLAGS",
+        ssmParameter: "/shared/feature-flags",
+        version: 3,
+      },
+      { name: "STRIPE_KEY", secret: "stripe", jsonKey: "apiKey" }
+    );
+    setContext(context, "base.db.rotation.mode", "multi");
+    setContext(context, "dev.api.appRunner.healthCheck", {
+      protocol: "HTTP",
+      path: "/health",
+      interval: 10,
+      timeout: 5,
+      healthyThreshold: 2,
+      unhealthyThreshold: 3,
+    });
+    setContext(context, "dev.api.customDomain", {
+      domainName: "api.example.com",
+      enableWWWSubdomain: true,
+    });
+    setContext(context, "dev.api.appRunner.autoScaling", {
+      minSize: 2,
+      maxSize: 4,
+      maxConcurrency: 50,
+    });
+    setContext(context, "dev.api.tracing.samplingRules", [
+      { name: "default", priority: 1000, fixedRate: 0.05 },
+      {
+        name: "health-check",
+        priority: 100,
+        reservoirSize: 0,
+        fixedRate: 0,
+        urlPath: "/health",
+      },
+    ]);
+    app = synthesize("dev", context);
+  });
+
+  function imageConfiguration() {
+    const [service] = Object.values(
+      app.template(app.stacks.api).findResources("AWS::AppRunner::Service")
+    );
+    return service.Properties.SourceConfiguration.ImageRepository
+      .ImageConfiguration as {
+      RuntimeEnvironmentSecrets: { Name: string; Value: unknown }[];
+      RuntimeEnvironmentVariables: { Name: string; Value: unknown }[];
+    };
+  }
+
+  test("passes references as secrets and values as variables", () => {
+    const { RuntimeEnvironmentSecrets, RuntimeEnvironmentVariables } =
+      imageConfiguration();
+    expect(RuntimeEnvironmentSecrets.map(({ Name }) => Name)).toEqual([
+      "MYSQL_HOST",
+      "MYSQL_READ_HOST",
+      "MYSQL_PORT",
+      "MYSQL_USER",
+      "MYSQL_PASSWORD",
+      "MYSQL_DATABASE",
+      "FEATURE_FLAGS",
+      "STRIPE_KEY",
+    ]);
+    expect(RuntimeEnvironmentVariables).toContainEqual({
+      Name: "TZ",
+      Value: "Asia/Tokyo",
+    });
+  });
+
+  test("pins parameter versions and narrows secrets to a JSON key", () => {
+    const { RuntimeEnvironmentSecrets } = imageConfiguration();
+    expect(RuntimeEnvironmentSecrets).toContainEqual({
+      Name: "FEATURE_FLAGS",
+      Value:
+        "arn:aws:ssm:ap-northeast-1:123456789012:parameter/shared/feature-flags:3",
+    });
+    expect(RuntimeEnvironmentSecrets).toContainEqual({
+      Name: "STRIPE_KEY",
+      Value:
+        "arn:aws:secretsmanager:ap-northeast-1:123456789012:secret:stripe:apiKey::",
+    });
+  });
+
+  test("reads the credentials from the application user's secret", () => {
+    // `"mode": "multi"` rotation hands the API its own user.
+    const password = imageConfiguration().RuntimeEnvironmentSecrets.find(
+      ({ Name }) => Name === "MYSQL_PASSWORD"
+    );
+    expect(JSON.stringify(password?.Value)).toContain("DBAppSecretAttachment");
+  });
+
+  test("only lets the instance role read the referenced values", () => {
+    app.template(app.stacks.api).hasResourceProperties("AWS::IAM::Role", {
+      RoleName: "dev-api-instance-role",
+      Policies: [
+        {
+          PolicyName: "RuntimeEnvironmentPolicy",
+          PolicyDocument: {
+            Statement: Match.arrayWith([
+              Match.objectLike({
+                Action: "ssm:GetParameters",
+                Resource: Match.arrayWith([
+                  "arn:aws:ssm:ap-northeast-1:123456789012:parameter/shared/feature-flags",
+                ]),
+              }),
+              Match.objectLike({
+                Action: "secretsmanager:GetSecretValue",
+                Resource: Match.arrayWith([
+                  "arn:aws:secretsmanager:ap-northeast-1:123456789012:secret:stripe-??????",
+                ]),
+              }),
+            ]),
+          },
+        },
+      ],
+    });
+  });
+
+  test("configures the health check", () => {
+    app
+      .template(app.stacks.api)
+      .hasResourceProperties("AWS::AppRunner::Service", {
+        HealthCheckConfiguration: {
+          Protocol: "HTTP",
+          Path: "/health",
+          Interval: 10,
+          Timeout: 5,
+          HealthyThreshold: 2,
+          UnhealthyThreshold: 3,
+        },
+      });
+  });
+
+  test("scales the service with its auto scaling configuration", () => {
+    const template = app.template(app.stacks.api);
+    template.hasResourceProperties("AWS::AppRunner::AutoScalingConfiguration", {
+      AutoScalingConfigurationName: "dev-api-autoscaling",
+      MinSize: 2,
+      MaxSize: 4,
+      MaxConcurrency: 50,
+    });
+    template.hasResourceProperties("AWS::AppRunner::Service", {
+      AutoScalingConfigurationArn: {
+        "Fn::GetAtt": [
+          Match.stringLikeRegexp("^APIAutoScalingConfiguration"),
+          "AutoScalingConfigurationArn",
+        ],
+      },
+    });
+  });
+
+  test("traces to X-Ray with sampling rules for the service only", () => {
+    const template = app.template(app.stacks.api);
+    template.hasResourceProperties("AWS::AppRunner::Service", {
+      ObservabilityConfiguration: {
+        ObservabilityEnabled: true,
+        ObservabilityConfigurationArn: {
+          "Fn::GetAtt": [
+            Match.stringLikeRegexp("^APIObservabilityConfiguration"),
+            "ObservabilityConfigurationArn",
+          ],
+        },
+      },
+    });
+    template.hasResourceProperties(
+      "AWS::AppRunner::ObservabilityConfiguration",
+      { TraceConfiguration: { Vendor: "AWSXRAY" } }
+    );
+    template.resourceCountIs("AWS::XRay::SamplingRule", 2);
+    template.hasResourceProperties("AWS::XRay::SamplingRule", {
+      SamplingRule: Match.objectLike({
+        RuleName: "dev-api-health-check",
+        Priority: 100,
+        ReservoirSize: 0,
+        FixedRate: 0,
+        ServiceName: "dev-api",
+        URLPath: "/health",
+        HTTPMethod: "*",
+      }),
+    });
+    expect(imageConfiguration().RuntimeEnvironmentVariables).toContainEqual({
+      Name: "OTEL_SERVICE_NAME",
+      Value: "dev-api",
+    });
+  });
+
+  test("deploys the image tagged with the commit", () => {
+    app
+      .template(app.stacks.api)
+      .hasResourceProperties("AWS::AppRunner::Service", {
+        ServiceName: "dev-api",
+        SourceConfiguration: {
+          ImageRepository: {
+            ImageIdentifier: Match.objectLike({
+              "Fn::Join": ["", Match.arrayWith([":0123abc"])],
+            }),
+          },
+        },
+      });
+  });
+
+  test("redeploys the service after the DB secret rotates", () => {
+    app.template(app.stacks.api).hasResourceProperties("AWS::Events::Rule", {
+      EventPattern: {
+        source: ["aws.secretsmanager"],
+        detail: { eventName: ["RotationSucceeded"] },
+      },
+      Targets: [
+        Match.objectLike({
+          Input: {
+            "Fn::Join": [
+              "",
+              Match.arrayWith([
+                Match.stringLikeRegexp('"action":"startDeployment"'),
+              ]),
+            ],
+          },
+        }),
+      ],
+    });
+  });
+
+  test("synthesizes offline without Docker on the PATH", () => {
+    const { PATH = "" } = process.env;
+    process.env.PATH = PATH.split(path.delimiter)
+      .filter((dir) => !fs.existsSync(path.join(dir, "docker")))
+      .join(path.delimiter);
+    try {
+      const { stacks, template } = synthesize("dev");
+      const ids = Object.keys(template(stacks.api).toJSON().Resources);
+      expect(ids).toContainEqual(expect.stringMatching(/^APIRepository/));
+      expect(ids).not.toContainEqual(
+        expect.stringMatching(/^DeployDockerImage/)
+      );
+    } finally {
+      process.env.PATH = PATH;
+    }
+  });
+
+  test("validates the custom domain with the records App Runner reports", () => {
+    const template = app.template(app.stacks.api);
+    const [id] = Object.keys(
+      template.findResources("Custom::AppRunnerCustomDomain", {
+        Properties: {
+          DomainName: "api.example.com",
+          EnableWWWSubdomain: "true",
+        },
+      })
+    );
+    expect(id).toBeDefined();
+    for (const i of [0, 1, 2]) {
+      template.hasResourceProperties("AWS::Route53::RecordSet", {
+        Name: { "Fn::GetAtt": [id, `ValidationRecord${i}Name`] },
+        ResourceRecords: [{ "Fn::GetAtt": [id, `ValidationRecord${i}Value`] }],
+      });
+    }
+  });
+});
@@ -0,0 +1,61 @@
+import * as cdk from "aws-cdk-lib";
+import { ConfigError, loadConfig } from "../lib/config";
+import { Context, loadContext, setContext, synthesize } from "./helpers";
+
+function issues(env: string, context: Context): string[] {
+  try {
+    synthesize(env, context);
+  } catch (e) {
+    if (e instanceof ConfigError) {
+      return e.issues;
+    }
+    throw e;
+  }
+  throw new Error("the configuration was accepted");
+}
+
+describe("loadConfig", () => {
+  test("reports every invalid field with its path at once", () => {
+    const context = loadContext();
+    setContext(context, "dev.api.appRunner.memory", 512);
+    setContext(context, "dev.bastion.instanceClass", "z9");
+    setContext(context, "dev.dataProtection", "keep");
+    expect(issues("dev", context)).toEqual([
+      "dev.api.appRunner.memory: 512 is not supported with cpu 1024 (allowed: 2048, 3072, 4096)",
+      'dev.dataProtection: "keep" must be one of "destroy", "retain"',
+      'dev.bastion.instanceClass: "z9" is not supported',
+    ]);
+  });
+
+  test("rejects an unknown environment before reading any block", () => {
+    expect(issues("staging", loadContext())).toEqual([
+      expect.stringMatching(/^env: /),
+    ]);
+  });
+
+  test("requires the commit hash", () => {
+    const app = new cdk.App({ context: { ...loadContext(), env: "dev" } });
+    expect(() => loadConfig(app)).toThrow(
+      "commit: is required, pass -c commit=<COMMIT_HASH>"
+    );
+  });
+
+  test("rejects a preview without front.preview", () => {
+    const context = loadContext();
+    setContext(context, "dev.front.preview", undefined);
+    setContext(context, "preview", "feature/login");
+    expect(issues("dev", context)).toEqual([
+      "preview: requires dev.front.preview to be set",
+    ]);
+  });
+
+  test("rejects an API domain outside the hosted zone", () => {
+    const context = loadContext();
+    setContext(context, "dev.api.customDomain", {
+      domainName: "api.example.org",
+    });
+    expect(issues("dev", context)).toEqual([
+      "dev.api.customDomain.domainName: must be a subdomain of example.com",
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+import { loadContext, setContext, synthesize } from "./helpers";
+
+type Domain = {
+  ServiceArn: string;
+  DomainName: string;
+  Status: string;
+  CertificateValidationRecords?: { Name: string; Value: string }[];
+};
+
+type Handler = (event: Record<string, unknown>) => Promise<{
+  PhysicalResourceId?: string;
+  IsComplete?: boolean;
+  Data?: Record<string, string>;
+}>;
+
+/**
+ * App Runner as far as the handler sees it: disassociated domains linger as
+ * `deleting`, and associated ones report their records on the next `settle`.
+ */
+class FakeAppRunner {
+  readonly domains: Domain[] = [];
+
+  async describeCustomDomains({ ServiceArn }: { ServiceArn: string }) {
+    return {
+      CustomDomains: this.domains
+        .filter((domain) => domain.ServiceArn === ServiceArn)
+        .map((domain) => ({ ...domain })),
+    };
+  }
+
+  async associateCustomDomain({
+    ServiceArn,
+    DomainName,
+  }: {
+    ServiceArn: string;
+    DomainName: string;
+  }) {
+    if (this.domains.some((domain) => domain.DomainName === DomainName)) {
+      throw Object.assign(new Error(`${DomainName} is already associated`), {
+        name: "InvalidRequestException",
+      });
+    }
+    this.domains.push({ ServiceArn, DomainName, Status: "creating" });
+  }
+
+  async disassociateCustomDomain({ DomainName }: { DomainName: string }) {
+    const domain = this.domains.find((d) => d.DomainName === DomainName);
+    if (!domain) {
+      throw Object.assign(new Error(DomainName), {
+        name: "ResourceNotFoundException",
+      });
+    }
+    domain.Status = "deleting";
+  }
+
+  settle(recordCount: number): void {
+    for (const domain of [...this.domains]) {
+      if (domain.Status === "deleting") {
+        this.domains.splice(this.domains.indexOf(domain), 1);
+      } else if (domain.Status === "creating") {
+        domain.Status = "pending_certificate_dns_validation";
+        domain.CertificateValidationRecords = [
+          ...Array(recordCount).keys(),
+        ].map((i) => ({
+          Name: `_${i}.${domain.DomainName}`,
+          Value: `${i}.acm`,
+        }));
+      }
+    }
+  }
+}
+
+describe("AppRunnerCustomDomain", () => {
+  let code: string;
+
+  beforeAll(() => {
+    const context = loadContext();
+    setContext(context, "dev.api.customDomain", {
+      domainName: "api.example.com",
+      enableWWWSubdomain: true,
+    });
+    const { stacks, template } = synthesize("dev", context);
+    const [handler] = Object.values(
+      template(stacks.api).findResources("AWS::Lambda::Function", {
+        Properties: { Handler: "index.onEvent" },
+      })
+    );
+    code = handler.Properties.Code.ZipFile;
+  });
+
+  function load(apprunner: FakeAppRunner) {
+    const handlers: Record<string, Handler> = {};
+    new Function("require", "exports", code)(
+      () => ({
+        AppRunner: function () {
+          return apprunner;
+        },
+      }),
+      handlers
+    );
+    return handlers;
+  }
+
+  const props = {
+    ServiceArn: "arn:service/api/1",
+    DomainName: "api.example.com",
+    EnableWWWSubdomain: "true",
+    ValidationRecordCount: "3",
+  };
+
+  test("waits until App Runner reports every validation record", async () => {
+    const apprunner = new FakeAppRunner();
+    const { onEvent, isComplete } = load(apprunner);
+    const event = { RequestType: "Create", ResourceProperties: props };
+    const { PhysicalResourceId } = await onEvent(event);
+    expect(PhysicalResourceId).toBe("api.example.com");
+
+    apprunner.settle(2);
+    expect(await isComplete({ ...event, PhysicalResourceId })).toEqual({
+      IsComplete: false,
+    });
+    apprunner.domains[0].CertificateValidationRecords?.push({
+      Name: "_2.api.example.com",
+      Value: "2.acm",
+    });
+    const { IsComplete, Data } = await isComplete({
+      ...event,
+      PhysicalResourceId,
+    });
+    expect(IsComplete).toBe(true);
+    expect(Data).toMatchObject({
+      ValidationRecord2Name: "_2.api.example.com",
+      ValidationRecord2Value: "2.acm",
+    });
+  });
+
+  test("fails when App Runner reports more records than written", async () => {
+    const apprunner = new FakeAppRunner();
+    const { onEvent, isComplete } = load(apprunner);
+    const event = {
+      RequestType: "Create",
+      ResourceProperties: { ...props, ValidationRecordCount: "2" },
+    };
+    await onEvent(event);
+    apprunner.settle(3);
+    await expect(isComplete(event)).rejects.toThrow(
+      "has 3 validation records, expected 2"
+    );
+  });
+
+  test.each([
+    ["the service", { ServiceArn: "arn:service/api/2" }],
+    ["enableWWWSubdomain", { EnableWWWSubdomain: "false" }],
+  ])(
+    "disassociates the domain before associating it again on a change of %s",
+    async (_, change) => {
+      const apprunner = new FakeAppRunner();
+      const { onEvent, isComplete } = load(apprunner);
+      await onEvent({ RequestType: "Create", ResourceProperties: props });
+      apprunner.settle(3);
+
+      const event = {
+        RequestType: "Update",
+        PhysicalResourceId: "api.example.com",
+        ResourceProperties: { ...props, ...change },
+        OldResourceProperties: props,
+      };
+      expect(await onEvent(event)).toEqual({
+        PhysicalResourceId: "api.example.com",
+      });
+      expect(apprunner.domains).toMatchObject([
+        { ServiceArn: props.ServiceArn, Status: "deleting" },
+      ]);
+      expect(await isComplete(event)).toEqual({ IsComplete: false });
+
+      apprunner.settle(3);
+      expect(await isComplete(event)).toEqual({ IsComplete: false });
+      expect(apprunner.domains).toMatchObject([
+        {
+          ServiceArn: event.ResourceProperties.ServiceArn,
+          DomainName: "api.example.com",
+          Status: "creating",
+        },
+      ]);
+
+      apprunner.settle(3);
+      expect(await isComplete(event)).toMatchObject({ IsComplete: true });
+    }
+  );
+});
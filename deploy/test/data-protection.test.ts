@@ -0,0 +1,62 @@
+import { TestApp, loadContext, setContext, synthesize } from "./helpers";
+
+function synthesizeWith(profile: string) {
+  const context = loadContext();
+  setContext(context, "dev.dataProtection", profile);
+  setContext(context, "base.api.waf.logging", {
+    destination: "cloudWatchLogs",
+  });
+  setContext(context, "base.front.waf", { logging: { destination: "s3" } });
+  return synthesize("dev", context);
+}
+
+function frontEdgeTemplate({ stacks, template }: TestApp) {
+  const { frontEdge } = stacks;
+  expect(frontEdge).toBeDefined();
+  if (!frontEdge) {
+    throw new Error("front.waf adds FrontEdgeStack");
+  }
+  return template(frontEdge);
+}
+
+describe("data protection", () => {
+  test("destroy deletes the data and empties buckets and the repository", () => {
+    const app = synthesizeWith("destroy");
+    const { stacks, template } = app;
+
+    template(stacks.db).hasResource("AWS::RDS::DBCluster", {
+      DeletionPolicy: "Delete",
+      Properties: { DeletionProtection: false },
+    });
+    const front = template(stacks.front);
+    front.allResources("AWS::S3::Bucket", { DeletionPolicy: "Delete" });
+    front.resourceCountIs("Custom::S3AutoDeleteObjects", 2);
+    const api = template(stacks.api);
+    api.hasResource("AWS::ECR::Repository", { DeletionPolicy: "Delete" });
+    api.resourceCountIs("Custom::ECRAutoDeleteImages", 1);
+    api.hasResource("AWS::Logs::LogGroup", { DeletionPolicy: "Delete" });
+    const frontEdge = frontEdgeTemplate(app);
+    frontEdge.hasResource("AWS::S3::Bucket", { DeletionPolicy: "Delete" });
+    frontEdge.resourceCountIs("Custom::S3AutoDeleteObjects", 1);
+  });
+
+  test("retain protects the cluster and keeps buckets and the repository", () => {
+    const app = synthesizeWith("retain");
+    const { stacks, template } = app;
+
+    template(stacks.db).hasResource("AWS::RDS::DBCluster", {
+      DeletionPolicy: "Snapshot",
+      Properties: { DeletionProtection: true },
+    });
+    const front = template(stacks.front);
+    front.allResources("AWS::S3::Bucket", { DeletionPolicy: "Retain" });
+    front.resourceCountIs("Custom::S3AutoDeleteObjects", 0);
+    const api = template(stacks.api);
+    api.hasResource("AWS::ECR::Repository", { DeletionPolicy: "Retain" });
+    api.resourceCountIs("Custom::ECRAutoDeleteImages", 0);
+    api.hasResource("AWS::Logs::LogGroup", { DeletionPolicy: "Retain" });
+    const frontEdge = frontEdgeTemplate(app);
+    frontEdge.hasResource("AWS::S3::Bucket", { DeletionPolicy: "Retain" });
+    frontEdge.resourceCountIs("Custom::S3AutoDeleteObjects", 0);
+  });
+});
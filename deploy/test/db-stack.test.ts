@@ -0,0 +1,240 @@
+import { Match } from "aws-cdk-lib/assertions";
+import { TestApp, loadContext, setContext, synthesize } from "./helpers";
+
+describe("DBStack", () => {
+  let app: TestApp;
+
+  beforeAll(() => {
+    const context = loadContext();
+    setContext(context, "dev.db.cluster.instance", {
+      writer: {
+        type: "provisioned",
+        instanceClass: "r6g",
+        instanceSize: "large",
+      },
+      readers: [
+        { type: "provisioned", instanceClass: "t4g", instanceSize: "medium" },
+        { type: "serverless", promotionTier: 1 },
+        { type: "serverless", promotionTier: 0 },
+      ],
+    });
+    setContext(context, "dev.db.cluster.serverlessV2", {
+      minCapacity: 0.5,
+      maxCapacity: 4,
+    });
+    setContext(context, "dev.db.cluster.scalableTarget", {
+      minCapacity: 2,
+      maxCapacity: 5,
+      targetValue: 60,
+      scaleInCooldown: 300,
+      scaleOutCooldown: 600,
+    });
+    app = synthesize("dev", context);
+  });
+
+  test("creates the writer and readers with their instance types", () => {
+    const template = app.template(app.stacks.db);
+    template.resourceCountIs("AWS::RDS::DBInstance", 4);
+    template.hasResourceProperties("AWS::RDS::DBInstance", {
+      DBInstanceIdentifier: "dev-instance1",
+      DBInstanceClass: "db.r6g.large",
+    });
+    template.hasResourceProperties("AWS::RDS::DBInstance", {
+      DBInstanceIdentifier: "dev-instance2",
+      DBInstanceClass: "db.t4g.medium",
+      PromotionTier: 2,
+    });
+    template.hasResourceProperties("AWS::RDS::DBInstance", {
+      DBInstanceIdentifier: "dev-instance3",
+      DBInstanceClass: "db.serverless",
+      PromotionTier: 1,
+    });
+    // Tier 0 scales with the writer too, which CDK deploys in tier 1.
+    template.hasResourceProperties("AWS::RDS::DBInstance", {
+      DBInstanceIdentifier: "dev-instance4",
+      DBInstanceClass: "db.serverless",
+      PromotionTier: 1,
+    });
+    template.hasResourceProperties("AWS::RDS::DBCluster", {
+      ServerlessV2ScalingConfiguration: { MinCapacity: 0.5, MaxCapacity: 4 },
+    });
+  });
+
+  test("scales the read replicas on reader CPU", () => {
+    const template = app.template(app.stacks.db);
+    template.hasResourceProperties(
+      "AWS::ApplicationAutoScaling::ScalableTarget",
+      {
+        ServiceNamespace: "rds",
+        ScalableDimension: "rds:cluster:ReadReplicaCount",
+        MinCapacity: 2,
+        MaxCapacity: 5,
+      }
+    );
+    template.hasResourceProperties(
+      "AWS::ApplicationAutoScaling::ScalingPolicy",
+      {
+        PolicyName: "dev-db-scale-policy",
+        PolicyType: "TargetTrackingScaling",
+        TargetTrackingScalingPolicyConfiguration: {
+          TargetValue: 60,
+          ScaleInCooldown: 300,
+          ScaleOutCooldown: 600,
+          PredefinedMetricSpecification: {
+            PredefinedMetricType: "RDSReaderAverageCPUUtilization",
+          },
+        },
+      }
+    );
+  });
+
+  test("publishes the connection parameters", () => {
+    const template = app.template(app.stacks.db);
+    for (const name of ["host", "read-host", "port", "dbname"]) {
+      template.hasResourceProperties("AWS::SSM::Parameter", {
+        Name: `/dev/db/${name}`,
+      });
+    }
+  });
+
+  test("encrypts the cluster with the looked-up key", () => {
+    app.template(app.stacks.db).hasResourceProperties("AWS::RDS::DBCluster", {
+      StorageEncrypted: true,
+      KmsKeyId: Match.stringLikeRegexp("00000000-0000-0000-0000-000000000000"),
+    });
+  });
+});
+
+describe("DBStack with an RDS Proxy", () => {
+  let app: TestApp;
+
+  beforeAll(() => {
+    const context = loadContext();
+    setContext(context, "dev.db.rdsProxy", {
+      iamAuth: true,
+      maxConnectionsPercent: 80,
+    });
+    setContext(context, "base.db.rotation.mode", "multi");
+    app = synthesize("dev", context);
+  });
+
+  test("puts the proxy in front of the cluster with a read-only endpoint", () => {
+    const template = app.template(app.stacks.db);
+    template.hasResourceProperties("AWS::RDS::DBProxy", {
+      DBProxyName: "dev-db-proxy",
+      RequireTLS: true,
+      Auth: Match.arrayWith([Match.objectLike({ IAMAuth: "REQUIRED" })]),
+    });
+    template.hasResourceProperties("AWS::RDS::DBProxyTargetGroup", {
+      ConnectionPoolConfigurationInfo: { MaxConnectionsPercent: 80 },
+    });
+    template.hasResourceProperties("AWS::RDS::DBProxyEndpoint", {
+      DBProxyEndpointName: "dev-db-proxy-read-only",
+      TargetRole: "READ_ONLY",
+    });
+  });
+
+  test("publishes the proxy endpoints as the hosts", () => {
+    const template = app.template(app.stacks.db);
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: "/dev/db/host",
+      Value: {
+        "Fn::GetAtt": [
+          Match.stringLikeRegexp("^DatabaseClusterDBProxy"),
+          "Endpoint",
+        ],
+      },
+    });
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: "/dev/db/read-host",
+      Value: {
+        "Fn::GetAtt": [
+          Match.stringLikeRegexp("^DBProxyReadOnlyEndpoint"),
+          "Endpoint",
+        ],
+      },
+    });
+  });
+
+  test("lets the API connect as the application user and its clone", () => {
+    const dbUser = (name: string) =>
+      Match.objectLike({
+        "Fn::Join": ["", Match.arrayWith([`/${name}`])],
+      });
+    app.template(app.stacks.api).hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: "rds-db:connect",
+            Resource: [dbUser("app"), dbUser("app_clone")],
+          }),
+        ]),
+      },
+    });
+  });
+});
+
+describe("DBBastionStack", () => {
+  let app: TestApp;
+
+  beforeAll(() => {
+    const context = loadContext();
+    setContext(context, "dev.bastion", {
+      enabled: true,
+      instanceClass: "t4g",
+      instanceSize: "nano",
+    });
+    app = synthesize("dev", context);
+  });
+
+  test("reaches the cluster through Session Manager only", () => {
+    const { bastion } = app.stacks;
+    expect(bastion).toBeDefined();
+    if (!bastion) {
+      return;
+    }
+    const template = app.template(bastion);
+    template.hasResourceProperties("AWS::EC2::Instance", {
+      InstanceType: "t4g.nano",
+      KeyName: Match.absent(),
+      Tags: Match.arrayWith([{ Key: "Name", Value: "dev-db-bastion" }]),
+    });
+    template.hasResourceProperties("AWS::IAM::Role", {
+      ManagedPolicyArns: Match.arrayWith([
+        Match.objectLike({
+          "Fn::Join": [
+            "",
+            Match.arrayWith([
+              Match.stringLikeRegexp("AmazonSSMManagedInstanceCore"),
+            ]),
+          ],
+        }),
+      ]),
+    });
+    template.hasResourceProperties("AWS::EC2::SecurityGroup", {
+      GroupName: "dev-db-bastion-sg",
+      SecurityGroupIngress: Match.absent(),
+    });
+    template.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+      FromPort: 3306,
+      ToPort: 3306,
+      Description: "Allow Bastion",
+    });
+  });
+
+  test("stops the instance on the auto-stop schedule", () => {
+    const { bastion } = app.stacks;
+    expect(bastion).toBeDefined();
+    if (!bastion) {
+      return;
+    }
+    app.template(bastion).hasResourceProperties("AWS::Scheduler::Schedule", {
+      Name: "dev-db-bastion-auto-stop",
+      ScheduleExpression: "cron(0 22 * * ? *)",
+      ScheduleExpressionTimezone: "Asia/Tokyo",
+      Target: Match.objectLike({
+        Arn: "arn:aws:scheduler:::aws-sdk:ec2:stopInstances",
+      }),
+    });
+  });
+});
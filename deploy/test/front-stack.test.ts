@@ -0,0 +1,308 @@
+import { Match } from "aws-cdk-lib/assertions";
+import { TestApp, loadContext, setContext, synthesize } from "./helpers";
+
+describe("FrontStack", () => {
+  describe("with the API behind the distribution", () => {
+    let app: TestApp;
+
+    beforeAll(() => {
+      app = synthesize("dev");
+    });
+
+    test("serves the default behavior from the bucket with the SPA rewrite", () => {
+      const template = app.template(app.stacks.front);
+      template.hasResourceProperties("AWS::CloudFront::Distribution", {
+        DistributionConfig: {
+          Aliases: ["app.dev.example.com"],
+          DefaultRootObject: "index.html",
+          DefaultCacheBehavior: {
+            CachePolicyId: {
+              Ref: Match.stringLikeRegexp("^DocumentCachePolicy"),
+            },
+            ResponseHeadersPolicyId: {
+              Ref: Match.stringLikeRegexp("^ResponseHeadersPolicy"),
+            },
+            ViewerProtocolPolicy: "redirect-to-https",
+            FunctionAssociations: [
+              Match.objectLike({ EventType: "viewer-request" }),
+            ],
+          },
+          CustomErrorResponses: Match.absent(),
+        },
+      });
+    });
+
+    test("caches hashed assets for a year", () => {
+      const template = app.template(app.stacks.front);
+      template.hasResourceProperties("AWS::CloudFront::Distribution", {
+        DistributionConfig: {
+          CacheBehaviors: Match.arrayWith([
+            Match.objectLike({
+              PathPattern: "/assets/*",
+              AllowedMethods: ["GET", "HEAD"],
+              CachePolicyId: {
+                Ref: Match.stringLikeRegexp("^AssetsCachePolicy"),
+              },
+            }),
+          ]),
+        },
+      });
+      template.hasResourceProperties("AWS::CloudFront::CachePolicy", {
+        CachePolicyConfig: Match.objectLike({
+          DefaultTTL: 31536000,
+          MinTTL: 31536000,
+        }),
+      });
+    });
+
+    test("prunes earlier documents but keeps earlier assets", () => {
+      const template = app.template(app.stacks.front);
+      template.hasResourceProperties("Custom::CDKBucketDeployment", {
+        Prune: false,
+        SystemMetadata: {
+          "cache-control": "public, max-age=31536000, immutable",
+        },
+      });
+      template.hasResourceProperties("Custom::CDKBucketDeployment", {
+        Prune: true,
+        Exclude: ["assets/*"],
+        SystemMetadata: { "cache-control": "no-cache" },
+      });
+    });
+
+    test("forwards /api/* to App Runner with the verification header", () => {
+      const template = app.template(app.stacks.front);
+      const [distribution] = Object.values(
+        template.findResources("AWS::CloudFront::Distribution")
+      );
+      const { CacheBehaviors, Origins } = distribution.Properties
+        .DistributionConfig as {
+        CacheBehaviors: Record<string, unknown>[];
+        Origins: Record<string, unknown>[];
+      };
+      const api = CacheBehaviors.find(
+        ({ PathPattern }) => PathPattern === "/api/*"
+      );
+      expect(api).toMatchObject({
+        AllowedMethods: [
+          "GET",
+          "HEAD",
+          "OPTIONS",
+          "PUT",
+          "PATCH",
+          "POST",
+          "DELETE",
+        ],
+        // Managed CachingDisabled and AllViewerExceptHostHeader policies.
+        CachePolicyId: "4135ea2d-6df8-44a3-9df3-4b5a84be39ad",
+        OriginRequestPolicyId: "b689b0a8-53d0-40ab-baf2-68738e2966ac",
+        ViewerProtocolPolicy: "https-only",
+      });
+      const origin = Origins.find(({ Id }) => Id === api?.TargetOriginId);
+      expect(origin).toMatchObject({
+        CustomOriginConfig: { OriginProtocolPolicy: "https-only" },
+        OriginCustomHeaders: [{ HeaderName: "x-origin-verify" }],
+      });
+    });
+
+    test("adds the security headers", () => {
+      app
+        .template(app.stacks.front)
+        .hasResourceProperties("AWS::CloudFront::ResponseHeadersPolicy", {
+          ResponseHeadersPolicyConfig: {
+            SecurityHeadersConfig: Match.objectLike({
+              ContentSecurityPolicy: Match.objectLike({
+                ContentSecurityPolicy: Match.stringLikeRegexp("^default-src"),
+              }),
+              StrictTransportSecurity: Match.objectLike({
+                AccessControlMaxAgeSec: 31536000,
+              }),
+            }),
+          },
+        });
+    });
+
+    test("versions the origin bucket and expires noncurrent versions", () => {
+      app.template(app.stacks.front).hasResourceProperties("AWS::S3::Bucket", {
+        BucketName: "dev-front-hosting-123456789012",
+        BucketEncryption: {
+          ServerSideEncryptionConfiguration: [
+            { ServerSideEncryptionByDefault: { SSEAlgorithm: "AES256" } },
+          ],
+        },
+        VersioningConfiguration: { Status: "Enabled" },
+        LifecycleConfiguration: {
+          Rules: [
+            {
+              NoncurrentVersionExpiration: { NoncurrentDays: 30 },
+              Status: "Enabled",
+            },
+          ],
+        },
+      });
+    });
+
+    test("moves access logs to cheaper storage and expires them", () => {
+      app.template(app.stacks.front).hasResourceProperties("AWS::S3::Bucket", {
+        BucketName: "dev-cloudfront-logs-123456789012",
+        LifecycleConfiguration: {
+          Rules: [
+            {
+              Transitions: [
+                { StorageClass: "STANDARD_IA", TransitionInDays: 30 },
+                { StorageClass: "GLACIER", TransitionInDays: 90 },
+              ],
+              ExpirationInDays: 365,
+              Status: "Enabled",
+            },
+          ],
+        },
+      });
+    });
+  });
+
+  describe("with a KMS-encrypted origin bucket", () => {
+    let app: TestApp;
+
+    beforeAll(() => {
+      const context = loadContext();
+      setContext(context, "base.front.buckets.origin.encryption", "KMS");
+      app = synthesize("dev", context);
+    });
+
+    test("encrypts with a rotated KMS key", () => {
+      const template = app.template(app.stacks.front);
+      template.hasResourceProperties("AWS::S3::Bucket", {
+        BucketName: "dev-front-hosting-123456789012",
+        BucketEncryption: {
+          ServerSideEncryptionConfiguration: [
+            {
+              BucketKeyEnabled: true,
+              ServerSideEncryptionByDefault: {
+                KMSMasterKeyID: {
+                  "Fn::GetAtt": [
+                    Match.stringLikeRegexp("^OriginFrontBucketKey"),
+                    "Arn",
+                  ],
+                },
+                SSEAlgorithm: "aws:kms",
+              },
+            },
+          ],
+        },
+      });
+      template.hasResourceProperties("AWS::KMS::Key", {
+        EnableKeyRotation: true,
+      });
+    });
+
+    test("lets only this distribution decrypt with the key", () => {
+      const template = app.template(app.stacks.front);
+      const calls = Object.values(template.findResources("Custom::AWS")).map(
+        ({ Properties }) => JSON.stringify(Properties.Create)
+      );
+      const putKeyPolicy = calls.find((call) => call.includes("putKeyPolicy"));
+      expect(putKeyPolicy).toMatch(
+        /kms:Decrypt.*:distribution\/",\{"Ref":"CloudFrontDistribution/
+      );
+      expect(putKeyPolicy).not.toContain("distribution/*");
+    });
+  });
+
+  describe("without the API behind the distribution", () => {
+    let app: TestApp;
+
+    beforeAll(() => {
+      const context = loadContext();
+      setContext(context, "base.front.apiOrigin", false);
+      setContext(context, "base.api.originVerification", undefined);
+      app = synthesize("dev", context);
+    });
+
+    test("falls back to error responses for client-side routes", () => {
+      const template = app.template(app.stacks.front);
+      template.hasResourceProperties("AWS::CloudFront::Distribution", {
+        DistributionConfig: {
+          CacheBehaviors: [Match.objectLike({ PathPattern: "/assets/*" })],
+          DefaultCacheBehavior: Match.objectLike({
+            FunctionAssociations: Match.absent(),
+          }),
+          CustomErrorResponses: [
+            Match.objectLike({
+              ErrorCode: 403,
+              ResponsePagePath: "/index.html",
+            }),
+            Match.objectLike({
+              ErrorCode: 404,
+              ResponsePagePath: "/index.html",
+            }),
+          ],
+        },
+      });
+    });
+  });
+
+  describe("with a branch preview", () => {
+    let app: TestApp;
+
+    beforeAll(() => {
+      const context = loadContext();
+      setContext(context, "preview", "Feature/Login");
+      app = synthesize("dev", context);
+    });
+
+    test("serves every branch from one wildcard distribution", () => {
+      const { frontEdge, frontPreview } = app.stacks;
+      expect(frontEdge).toBeDefined();
+      expect(frontPreview).toBeDefined();
+      if (!frontEdge || !frontPreview) {
+        return;
+      }
+      app
+        .template(frontEdge)
+        .hasResourceProperties("AWS::CertificateManager::Certificate", {
+          DomainName: "*.preview.example.com",
+        });
+      const template = app.template(frontPreview);
+      template.hasResourceProperties("AWS::S3::Bucket", {
+        BucketName: "dev-front-preview-123456789012",
+      });
+      template.hasResourceProperties("AWS::CloudFront::Distribution", {
+        DistributionConfig: {
+          Aliases: ["*.preview.example.com"],
+          DefaultCacheBehavior: Match.objectLike({
+            // Managed CachingDisabled policy.
+            CachePolicyId: "4135ea2d-6df8-44a3-9df3-4b5a84be39ad",
+            FunctionAssociations: [
+              Match.objectLike({ EventType: "viewer-request" }),
+            ],
+          }),
+          CacheBehaviors: [Match.objectLike({ PathPattern: "/api/*" })],
+        },
+      });
+      template.hasResourceProperties("AWS::CloudFront::Function", {
+        Name: "dev-front-preview-rewrite",
+      });
+    });
+
+    test("deploys the branch under its label with its own record", () => {
+      const { frontPreviewBranch } = app.stacks;
+      expect(frontPreviewBranch).toBeDefined();
+      if (!frontPreviewBranch) {
+        return;
+      }
+      expect(frontPreviewBranch.stackName).toBe(
+        "dev-front-preview-feature-login-stack"
+      );
+      const template = app.template(frontPreviewBranch);
+      template.hasResourceProperties("Custom::CDKBucketDeployment", {
+        DestinationBucketKeyPrefix: "feature-login/",
+        Prune: true,
+      });
+      template.hasResourceProperties("AWS::Route53::RecordSet", {
+        Name: "feature-login.preview.example.com.",
+        Type: "A",
+      });
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import * as cdk from "aws-cdk-lib";
+import { Annotations, Match } from "aws-cdk-lib/assertions";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as rds from "aws-cdk-lib/aws-rds";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import * as sns from "aws-cdk-lib/aws-sns";
+import {
+  GuardrailMode,
+  GuardrailRule,
+  Guardrails,
+  suppressGuardrail,
+} from "../lib/guardrails";
+import { ENV_BLOCKS, synthesize } from "./helpers";
+
+function newStack(mode: GuardrailMode): cdk.Stack {
+  const app = new cdk.App();
+  cdk.Aspects.of(app).add(new Guardrails(mode));
+  return new cdk.Stack(app, "Stack", {
+    env: { account: "123456789012", region: "ap-northeast-1" },
+  });
+}
+
+function findings(stack: cdk.Stack, mode: GuardrailMode, rule: GuardrailRule) {
+  const annotations = Annotations.fromStack(stack);
+  const message = Match.stringLikeRegexp(`^\\[${rule}\\]`);
+  return mode === "error"
+    ? annotations.findError("*", message)
+    : annotations.findWarning("*", message);
+}
+
+describe("Guardrails", () => {
+  const violations: [GuardrailRule, (stack: cdk.Stack) => void][] = [
+    [
+      "no-public-ssh",
+      (stack) => {
+        const vpc = new ec2.Vpc(stack, "VPC", { natGateways: 0 });
+        new ec2.SecurityGroup(stack, "SecurityGroup", {
+          vpc,
+        }).addIngressRule(ec2.Peer.anyIpv4(), ec2.Port.tcp(22));
+      },
+    ],
+    [
+      "s3-encryption",
+      (stack) => {
+        new s3.CfnBucket(stack, "Bucket");
+      },
+    ],
+    [
+      "s3-enforce-ssl",
+      (stack) => {
+        new s3.Bucket(stack, "Bucket", {
+          encryption: s3.BucketEncryption.S3_MANAGED,
+        });
+      },
+    ],
+    [
+      "rds-deletion-protection",
+      (stack) => {
+        new rds.CfnDBCluster(stack, "Cluster", { engine: "aurora-mysql" });
+      },
+    ],
+    [
+      "iam-no-wildcard-resource",
+      (stack) => {
+        new iam.Role(stack, "Role", {
+          assumedBy: new iam.ServicePrincipal("lambda.amazonaws.com"),
+        }).addToPolicy(
+          new iam.PolicyStatement({ actions: ["s3:*"], resources: ["*"] })
+        );
+      },
+    ],
+    [
+      "required-tags",
+      (stack) => {
+        new sns.Topic(stack, "Topic");
+      },
+    ],
+  ];
+
+  describe.each(violations)("%s", (rule, violate) => {
+    test.each(["error", "warn"] as const)("reports an %s", (mode) => {
+      const stack = newStack(mode);
+      violate(stack);
+      expect(findings(stack, mode, rule)).not.toHaveLength(0);
+    });
+
+    test("is silenced by a suppression", () => {
+      const stack = newStack("error");
+      violate(stack);
+      suppressGuardrail(stack, rule, "Covered by the test.");
+      expect(findings(stack, "error", rule)).toHaveLength(0);
+    });
+  });
+
+  test("requires a justification to suppress a rule", () => {
+    expect(() =>
+      suppressGuardrail(newStack("error"), "s3-encryption", " ")
+    ).toThrow(/requires a justification/);
+  });
+
+  test.each(ENV_BLOCKS)("%s passes every guardrail", (env) => {
+    const { stacks } = synthesize(env);
+    for (const stack of Object.values(stacks)) {
+      if (stack === undefined) {
+        continue;
+      }
+      const annotations = Annotations.fromStack(stack);
+      const message = Match.stringLikeRegexp("^\\[[a-z0-9-]+\\] ");
+      expect(annotations.findError("*", message)).toHaveLength(0);
+      expect(annotations.findWarning("*", message)).toHaveLength(0);
+    }
+  });
+});
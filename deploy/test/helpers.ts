@@ -0,0 +1,113 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as cdk from "aws-cdk-lib";
+import { Template } from "aws-cdk-lib/assertions";
+import { ENV_TYPES, EnvType, loadConfig } from "../lib/config";
+import { Guardrails } from "../lib/guardrails";
+import { assertNoMissingContext } from "../lib/offline";
+import { Stacks, createStacks } from "../lib/stacks";
+import { applyTags } from "../lib/tagging";
+
+export type Context = Record<string, unknown>;
+
+function readJSON(file: string): Context {
+  return JSON.parse(
+    fs.readFileSync(path.join(__dirname, "..", file), "utf8")
+  ) as Context;
+}
+
+function isContext(value: unknown): value is Context {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Environment blocks of cdk.context.json. The CLI also caches lookup results
+ * there, so only the keys the config accepts as `-c env` count.
+ */
+export const ENV_BLOCKS = Object.keys(readJSON("cdk.context.json")).filter(
+  (key): key is EnvType => (ENV_TYPES as readonly string[]).includes(key)
+);
+
+/**
+ * Feature flags from cdk.json and the blocks of cdk.context.json, read anew
+ * on each call so a test can change its copy.
+ */
+export function loadContext(): Context {
+  const { context } = readJSON("cdk.json");
+  if (!isContext(context)) {
+    throw new Error("cdk.json has no context");
+  }
+  return { ...context, ...readJSON("cdk.context.json") };
+}
+
+function parentOf(context: Context, keyPath: string): [Context, string] {
+  const keys = keyPath.split(".");
+  const key = keys.pop() as string;
+  let parent = context;
+  for (const [i, k] of keys.entries()) {
+    const child = (parent[k] ??= {});
+    if (!isContext(child)) {
+      throw new Error(`${keys.slice(0, i + 1).join(".")} is not an object`);
+    }
+    parent = child;
+  }
+  return [parent, key];
+}
+
+/**
+ * The value at a dotted path of `context`, e.g. `base.api.environment`.
+ */
+export function getContext(context: Context, keyPath: string): unknown {
+  return keyPath
+    .split(".")
+    .reduce<unknown>(
+      (value, key) => (isContext(value) ? value[key] : undefined),
+      context
+    );
+}
+
+/**
+ * Sets the value at a dotted path of `context`, creating the blocks on the
+ * way; `undefined` removes the key.
+ */
+export function setContext(
+  context: Context,
+  keyPath: string,
+  value: unknown
+): void {
+  const [parent, key] = parentOf(context, keyPath);
+  if (value === undefined) {
+    delete parent[key];
+  } else {
+    parent[key] = value;
+  }
+}
+
+export type TestApp = {
+  readonly stacks: Stacks;
+  template(stack: cdk.Stack): Template;
+};
+
+/**
+ * Synthesizes the app offline, as `cdk synth -c env=<env> -c offline=true`
+ * would.
+ */
+export function synthesize(
+  env: string,
+  context: Context = loadContext()
+): TestApp {
+  const app = new cdk.App({
+    context: { ...context, env, commit: "0123abc", offline: true },
+  });
+  const config = loadConfig(app);
+  const stacks = createStacks(app, config);
+  applyTags(app, stacks, config.tagging, config.envType, config.commitHash);
+  cdk.Aspects.of(app).add(new Guardrails(config.guardrails));
+  const assembly = app.synth();
+  assertNoMissingContext(assembly);
+  return {
+    stacks,
+    template: (stack) =>
+      Template.fromJSON(assembly.getStackByName(stack.stackName).template),
+  };
+}
@@ -0,0 +1,103 @@
+import { Match } from "aws-cdk-lib/assertions";
+import { TestApp, loadContext, setContext, synthesize } from "./helpers";
+
+describe("MonitoringStack", () => {
+  let app: TestApp;
+
+  beforeAll(() => {
+    const context = loadContext();
+    setContext(context, "dev.monitoring", {
+      notifications: { emails: ["ops@example.com"] },
+      evaluationPeriods: 2,
+      thresholds: { db: { cpuPercent: 75 } },
+    });
+    app = synthesize("dev", context);
+  });
+
+  test("alarms on the API, the cluster and each NAT gateway", () => {
+    const template = app.template(app.stacks.monitoring);
+    for (const name of [
+      "api-5xx",
+      "api-latency",
+      "api-active-instances",
+      "api-waf-blocked",
+      "db-cpu",
+      "db-connections",
+      "db-replica-lag",
+      "db-freeable-memory",
+      "nat-1-port-allocation-errors",
+      "nat-1-packets-dropped",
+    ]) {
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        AlarmName: `dev-${name}`,
+        EvaluationPeriods: 2,
+        TreatMissingData: "notBreaching",
+      });
+    }
+    template.resourceCountIs("AWS::CloudWatch::Alarm", 10);
+  });
+
+  test("takes the thresholds from the config", () => {
+    const template = app.template(app.stacks.monitoring);
+    template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+      AlarmName: "dev-db-cpu",
+      Namespace: "AWS/RDS",
+      MetricName: "CPUUtilization",
+      Threshold: 75,
+    });
+    // Defaults to the API's auto scaling limit.
+    template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+      AlarmName: "dev-api-active-instances",
+      Threshold: 2,
+    });
+    template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+      AlarmName: "dev-db-freeable-memory",
+      ComparisonOperator: "LessThanThreshold",
+    });
+  });
+
+  test("notifies the subscribers when an alarm fires and clears", () => {
+    const template = app.template(app.stacks.monitoring);
+    const topic = { Ref: Match.stringLikeRegexp("^AlarmsTopic") };
+    template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+      AlarmName: "dev-api-5xx",
+      AlarmActions: [topic],
+      OKActions: [topic],
+    });
+    template.hasResourceProperties("AWS::SNS::Subscription", {
+      Protocol: "email",
+      Endpoint: "ops@example.com",
+    });
+  });
+});
+
+describe("MonitoringEdgeStack", () => {
+  test("is left out without subscribers", () => {
+    const { stacks } = synthesize("dev");
+    expect(stacks.monitoringEdge).toBeUndefined();
+  });
+
+  test("alarms on CloudFront once the alarms have a subscriber", () => {
+    const context = loadContext();
+    setContext(context, "base.monitoring.notifications.emails", [
+      "ops@example.com",
+    ]);
+    const { stacks, template } = synthesize("dev", context);
+    const { monitoringEdge } = stacks;
+    expect(monitoringEdge).toBeDefined();
+    if (!monitoringEdge) {
+      return;
+    }
+    expect(monitoringEdge.region).toBe("us-east-1");
+    const edge = template(monitoringEdge);
+    edge.hasResourceProperties("AWS::CloudWatch::Alarm", {
+      AlarmName: "dev-front-5xx-rate",
+      MetricName: "5xxErrorRate",
+      Namespace: "AWS/CloudFront",
+    });
+    edge.hasResourceProperties("AWS::SNS::Subscription", {
+      Protocol: "email",
+      Endpoint: "ops@example.com",
+    });
+  });
+});
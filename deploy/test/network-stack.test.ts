@@ -0,0 +1,133 @@
+import { Match } from "aws-cdk-lib/assertions";
+import { TestApp, loadContext, setContext, synthesize } from "./helpers";
+
+describe("NetworkStack", () => {
+  let app: TestApp;
+
+  beforeAll(() => {
+    const context = loadContext();
+    setContext(context, "dev.network", {
+      vpc: {
+        cidr: "10.1.0.0/16",
+        maxAzs: 3,
+        subnetConfiguration: [
+          { cidrMask: 24, name: "public", subnetType: "public" },
+          { cidrMask: 22, name: "private", subnetType: "private" },
+          { cidrMask: 26, name: "isolated", subnetType: "isolated" },
+        ],
+        natGatewaysCount: 2,
+      },
+      hostedZoneName: "example.com",
+    });
+    app = synthesize("dev", context);
+  });
+
+  test("creates the VPC from NetworkProps", () => {
+    app.template(app.stacks.network).hasResourceProperties("AWS::EC2::VPC", {
+      CidrBlock: "10.1.0.0/16",
+      Tags: Match.arrayWith([{ Key: "Name", Value: "dev-vpc" }]),
+    });
+  });
+
+  test("creates each subnet group in every availability zone", () => {
+    const template = app.template(app.stacks.network);
+    template.resourceCountIs("AWS::EC2::Subnet", 9);
+    for (const [name, cidrMask, type] of [
+      ["public", 24, "Public"],
+      ["private", 22, "Private"],
+      ["isolated", 26, "Isolated"],
+    ]) {
+      const subnets = template.findResources("AWS::EC2::Subnet", {
+        Properties: {
+          Tags: Match.arrayWith([
+            { Key: "aws-cdk:subnet-name", Value: name },
+            { Key: "aws-cdk:subnet-type", Value: type },
+          ]),
+        },
+      });
+      const resources = Object.values(subnets);
+      expect(resources).toHaveLength(3);
+      for (const subnet of resources) {
+        expect(subnet.Properties.CidrBlock).toMatch(
+          new RegExp(`^10\\.1\\.\\d+\\.\\d+/${cidrMask}$`)
+        );
+      }
+    }
+  });
+
+  test("creates natGatewaysCount NAT gateways", () => {
+    app.template(app.stacks.network).resourceCountIs("AWS::EC2::NatGateway", 2);
+    expect(app.stacks.network.natGatewayIds).toHaveLength(2);
+  });
+
+  test("attaches the VPC connector to the private subnets", () => {
+    const template = app.template(app.stacks.network);
+    const privateSubnets = Object.keys(
+      template.findResources("AWS::EC2::Subnet", {
+        Properties: {
+          Tags: Match.arrayWith([
+            { Key: "aws-cdk:subnet-name", Value: "private" },
+          ]),
+        },
+      })
+    );
+    template.hasResourceProperties("AWS::AppRunner::VpcConnector", {
+      Subnets: privateSubnets.map((id) => ({ Ref: id })),
+    });
+  });
+});
+
+describe("ssm discovery mode", () => {
+  let app: TestApp;
+
+  beforeAll(() => {
+    const context = loadContext();
+    setContext(context, "dev.discovery", "ssm");
+    app = synthesize("dev", context);
+  });
+
+  test("publishes the handles of each stack in Parameter Store", () => {
+    const network = app.template(app.stacks.network);
+    for (const name of [
+      "vpc-connector-arn",
+      "vpc-connector-name",
+      "vpc-connector-revision",
+      "vpc-connector-sg-id",
+      "nat-gateway-ids",
+    ]) {
+      network.hasResourceProperties("AWS::SSM::Parameter", {
+        Name: `/dev/network/${name}`,
+      });
+    }
+    const db = app.template(app.stacks.db);
+    for (const name of ["cluster-identifier", "secret-arn", "sg-id"]) {
+      db.hasResourceProperties("AWS::SSM::Parameter", {
+        Name: `/dev/db/${name}`,
+      });
+    }
+  });
+
+  test("reads the handles back instead of importing exports", () => {
+    const { network, db, api, front, monitoring } = app.stacks;
+    for (const stack of [network, db, api, front, monitoring]) {
+      expect(JSON.stringify(app.template(stack).toJSON())).not.toContain(
+        "Fn::ImportValue"
+      );
+    }
+    app.template(api).hasParameter("*", {
+      Type: "AWS::SSM::Parameter::Value<String>",
+      Default: "/dev/network/vpc-connector-arn",
+    });
+    app.template(api).hasResourceProperties("AWS::AppRunner::Service", {
+      NetworkConfiguration: {
+        EgressConfiguration: {
+          VpcConnectorArn: {
+            Ref: Match.stringLikeRegexp(
+              "^SsmParameterValuedevnetworkvpcconnectorarn"
+            ),
+          },
+        },
+      },
+    });
+  });
+});
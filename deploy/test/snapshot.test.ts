@@ -0,0 +1,19 @@
+import { ENV_BLOCKS, synthesize } from "./helpers";
+
+// Asset hashes change with every CDK upgrade and front-end build.
+const ASSET_HASH = /[0-9a-f]{64}/g;
+
+describe.each(ENV_BLOCKS)("%s", (env) => {
+  const { stacks, template } = synthesize(env);
+
+  test.each(
+    Object.values(stacks)
+      .filter((stack) => stack !== undefined)
+      .map((stack) => [stack.stackName, stack])
+  )("%s matches the snapshot", (_, stack) => {
+    const json = JSON.stringify(template(stack).toJSON());
+    expect(
+      JSON.parse(json.replace(ASSET_HASH, "[ASSET_HASH]"))
+    ).toMatchSnapshot();
+  });
+});
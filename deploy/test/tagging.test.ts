@@ -0,0 +1,61 @@
+import { Match } from "aws-cdk-lib/assertions";
+import { loadContext, setContext, synthesize } from "./helpers";
+
+const REQUIRED = {
+  env: "dev",
+  service: "app-runner",
+  commit: "0123abc",
+  owner: "platform-team",
+  "cost-center": "CC-0000",
+};
+
+// Sorted by key, as CDK renders them.
+function tagList(values: Record<string, string>) {
+  return Object.entries(values)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([Key, Value]) => ({ Key, Value }));
+}
+
+function tags(values: Record<string, string>) {
+  return Match.arrayWith(tagList(values));
+}
+
+describe("tagging", () => {
+  const context = loadContext();
+  setContext(context, "dev.tagging", {
+    stacks: { db: { team: "data" } },
+  });
+  const { stacks, template } = synthesize("dev", context);
+
+  test("tags resources with the cost allocation tags", () => {
+    template(stacks.network).hasResourceProperties("AWS::EC2::NatGateway", {
+      Tags: tags(REQUIRED),
+    });
+    template(stacks.front).hasResourceProperties(
+      "AWS::CloudFront::Distribution",
+      { Tags: tags(REQUIRED) }
+    );
+  });
+
+  test("leaves the commit off resources replaced on tag changes", () => {
+    const { commit, ...rest } = REQUIRED;
+    const services = template(stacks.api).findResources(
+      "AWS::AppRunner::Service"
+    );
+    for (const { Properties } of Object.values(services)) {
+      expect(Properties.Tags).toEqual(tagList(rest));
+    }
+    template(stacks.db).hasResourceProperties("AWS::RDS::DBInstance", {
+      Tags: Match.arrayWith([{ Key: "commit", Value: commit }]),
+    });
+  });
+
+  test("adds the extra tags of a stack to its resources only", () => {
+    template(stacks.db).hasResourceProperties("AWS::RDS::DBInstance", {
+      Tags: tags({ ...REQUIRED, team: "data" }),
+    });
+    template(stacks.network).hasResourceProperties("AWS::EC2::NatGateway", {
+      Tags: Match.not(Match.arrayWith([{ Key: "team", Value: "data" }])),
+    });
+  });
+});
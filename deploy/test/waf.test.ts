@@ -0,0 +1,161 @@
+import { Match } from "aws-cdk-lib/assertions";
+import { TestApp, loadContext, setContext, synthesize } from "./helpers";
+
+describe("WebACL", () => {
+  let app: TestApp;
+
+  beforeAll(() => {
+    const context = loadContext();
+    setContext(context, "base.api.waf", {
+      ipSets: [
+        {
+          name: "Office",
+          addresses: ["192.0.2.0/24"],
+          action: "allow",
+        },
+      ],
+      geoMatches: [
+        {
+          name: "JapanOnly",
+          countryCodes: ["JP"],
+          negate: true,
+          action: "block",
+        },
+      ],
+      rateLimits: [{ name: "RateLimitPerIP", limit: 500 }],
+      managedRuleGroups: [
+        {
+          name: "AWSManagedRulesCommonRuleSet",
+          excludedRules: ["SizeRestrictions_BODY"],
+          overrideAction: "count",
+        },
+      ],
+      logging: { destination: "cloudWatchLogs" },
+    });
+    setContext(context, "base.front.waf", {
+      rateLimits: [{ name: "FrontRateLimit", limit: 1000 }],
+      logging: { destination: "s3" },
+    });
+    app = synthesize("dev", context);
+  });
+
+  function rules(template: ReturnType<TestApp["template"]>) {
+    const [webAcl] = Object.values(
+      template.findResources("AWS::WAFv2::WebACL")
+    );
+    return webAcl.Properties.Rules as {
+      Name: string;
+      Priority: number;
+      Statement: Record<string, unknown>;
+    }[];
+  }
+
+  test("orders the API's rules by kind", () => {
+    const template = app.template(app.stacks.api);
+    expect(
+      rules(template).map(({ Name, Priority }) => [Name, Priority])
+    ).toEqual([
+      ["RequiredHeader", 0],
+      ["Office", 1],
+      ["JapanOnly", 2],
+      ["RateLimitPerIP", 3],
+      ["AWSManagedRulesCommonRuleSet", 4],
+    ]);
+    template.hasResourceProperties("AWS::WAFv2::WebACL", {
+      Name: "dev-api-waf",
+      Scope: "REGIONAL",
+    });
+  });
+
+  test("builds each rule from its block", () => {
+    const template = app.template(app.stacks.api);
+    template.hasResourceProperties("AWS::WAFv2::IPSet", {
+      Name: "dev-api-waf-Office",
+      Addresses: ["192.0.2.0/24"],
+      IPAddressVersion: "IPV4",
+    });
+    template.hasResourceProperties("AWS::WAFv2::WebACL", {
+      Rules: Match.arrayWith([
+        Match.objectLike({
+          Name: "JapanOnly",
+          Action: { Block: {} },
+          Statement: {
+            NotStatement: {
+              Statement: { GeoMatchStatement: { CountryCodes: ["JP"] } },
+            },
+          },
+        }),
+        Match.objectLike({
+          Name: "RateLimitPerIP",
+          Statement: {
+            RateBasedStatement: { Limit: 500, AggregateKeyType: "IP" },
+          },
+        }),
+        Match.objectLike({
+          Name: "AWSManagedRulesCommonRuleSet",
+          OverrideAction: { Count: {} },
+          Statement: {
+            ManagedRuleGroupStatement: {
+              VendorName: "AWS",
+              Name: "AWSManagedRulesCommonRuleSet",
+              ExcludedRules: [{ Name: "SizeRestrictions_BODY" }],
+            },
+          },
+        }),
+      ]),
+    });
+  });
+
+  test("requires the origin verification header", () => {
+    const [requiredHeader] = rules(app.template(app.stacks.api));
+    expect(requiredHeader.Statement).toMatchObject({
+      NotStatement: {
+        Statement: {
+          ByteMatchStatement: {
+            FieldToMatch: { SingleHeader: { Name: "x-origin-verify" } },
+            PositionalConstraint: "EXACTLY",
+          },
+        },
+      },
+    });
+  });
+
+  test("logs to CloudWatch Logs", () => {
+    const template = app.template(app.stacks.api);
+    template.hasResourceProperties("AWS::Logs::LogGroup", {
+      LogGroupName: "aws-waf-logs-dev-api-waf",
+      RetentionInDays: 30,
+    });
+    template.hasResourceProperties("AWS::WAFv2::LoggingConfiguration", {
+      RedactedFields: [
+        { SingleHeader: { Name: "authorization" } },
+        { SingleHeader: { Name: "cookie" } },
+      ],
+    });
+  });
+
+  test("logs to a bucket named after the account", () => {
+    const { frontEdge } = app.stacks;
+    expect(frontEdge).toBeDefined();
+    if (!frontEdge) {
+      return;
+    }
+    app.template(frontEdge).hasResourceProperties("AWS::S3::Bucket", {
+      BucketName: "aws-waf-logs-dev-front-waf-123456789012",
+    });
+  });
+
+  test("attaches a CLOUDFRONT-scope web ACL to the distribution", () => {
+    const { frontEdge } = app.stacks;
+    expect(frontEdge).toBeDefined();
+    if (!frontEdge) {
+      return;
+    }
+    const template = app.template(frontEdge);
+    template.hasResourceProperties("AWS::WAFv2::WebACL", {
+      Name: "dev-front-waf",
+      Scope: "CLOUDFRONT",
+    });
+    expect(rules(template).map(({ Name }) => Name)).toEqual(["FrontRateLimit"]);
+  });
+});